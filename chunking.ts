@@ -0,0 +1,275 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Splits long recordings into silence-aligned chunks that fit in a single
+// inline Gemini request, and stitches the per-chunk transcripts back together.
+
+import {GeminiError} from './errors';
+import {TranscriptSegment} from './transcript';
+
+export const CHUNK_SAMPLE_RATE = 16000;
+export const CHUNK_TARGET_SECONDS = 300;
+export const CHUNK_OVERLAP_SECONDS = 2;
+export const CHUNK_CONCURRENCY = 3;
+
+// How far back from each target boundary to look for a quiet spot.
+const SPLIT_SEARCH_SECONDS = 30;
+const SILENCE_FRAME_SECONDS = 0.25;
+const SEAM_MAX_WORDS = 40;
+// A single repeated word is too likely to be a coincidence ("the", "and").
+const SEAM_MIN_WORDS = 2;
+// Recordings are decoded whole before they are split, which takes about
+// 64 KB of memory per second of audio and channel. Larger files are
+// rejected rather than risk running a phone out of memory; 150 MB is a few
+// hours of compressed audio.
+const MAX_DECODE_BYTES = 150 * 1024 * 1024;
+
+declare global {
+  interface Window {
+    // Older Safari versions only have the prefixed constructor.
+    webkitAudioContext?: typeof AudioContext;
+  }
+}
+
+export interface AudioChunk {
+  index: number;
+  start: number; // seconds
+  end: number; // seconds, including the overlap into the next chunk
+}
+
+export function createAudioContext(
+  options?: AudioContextOptions,
+): AudioContext {
+  const Context = window.AudioContext || window.webkitAudioContext!;
+  return new Context(options);
+}
+
+/**
+ * Decodes audio at CHUNK_SAMPLE_RATE. Rejects with a 'too-large' GeminiError
+ * if the file is over MAX_DECODE_BYTES.
+ */
+export async function decodeAudio(audioBlob: Blob): Promise<AudioBuffer> {
+  if (audioBlob.size > MAX_DECODE_BYTES) {
+    const size = Math.round(audioBlob.size / (1024 * 1024));
+    const limit = MAX_DECODE_BYTES / (1024 * 1024);
+    throw new GeminiError(
+      'too-large',
+      `This file is ${size} MB, and files over ${limit} MB cannot be processed in the browser. Split it into shorter recordings or convert it to a lower bitrate.`,
+    );
+  }
+  const context = createAudioContext({sampleRate: CHUNK_SAMPLE_RATE});
+  try {
+    return await context.decodeAudioData(await audioBlob.arrayBuffer());
+  } finally {
+    context.close().catch(console.warn);
+  }
+}
+
+export function mixToMono(
+  buffer: AudioBuffer,
+  from: number,
+  to: number,
+): Float32Array {
+  const mono = new Float32Array(to - from);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = from; i < to; i++) mono[i - from] += data[i];
+  }
+  if (buffer.numberOfChannels > 1) {
+    for (let i = 0; i < mono.length; i++) mono[i] /= buffer.numberOfChannels;
+  }
+  return mono;
+}
+
+export function frameEnergy(
+  data: Float32Array,
+  from: number,
+  to: number,
+): number {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += data[i] * data[i];
+  return sum / Math.max(1, to - from);
+}
+
+/** Returns the time of the quietest frame in [from, to) seconds. */
+function findQuietestPoint(
+  buffer: AudioBuffer,
+  from: number,
+  to: number,
+): number {
+  const rate = buffer.sampleRate;
+  const start = Math.max(0, Math.floor(from * rate));
+  const end = Math.min(buffer.length, Math.floor(to * rate));
+  const frame = Math.max(1, Math.floor(SILENCE_FRAME_SECONDS * rate));
+  const data = mixToMono(buffer, start, end);
+  let bestOffset = data.length;
+  let bestEnergy = Infinity;
+  for (let i = 0; i + frame <= data.length; i += frame) {
+    const energy = frameEnergy(data, i, i + frame);
+    if (energy < bestEnergy) {
+      bestEnergy = energy;
+      bestOffset = i + Math.floor(frame / 2);
+    }
+  }
+  return (start + bestOffset) / rate;
+}
+
+/**
+ * Plans chunk boundaries roughly every CHUNK_TARGET_SECONDS, moved back to the
+ * quietest nearby point so chunks rarely cut through a word. Each chunk
+ * extends CHUNK_OVERLAP_SECONDS into the next one.
+ */
+export function planChunks(buffer: AudioBuffer): AudioChunk[] {
+  const duration = buffer.duration;
+  const boundaries = [0];
+  let last = 0;
+  while (duration - last > CHUNK_TARGET_SECONDS * 1.2) {
+    const target = last + CHUNK_TARGET_SECONDS;
+    const searchFrom = Math.max(last + 1, target - SPLIT_SEARCH_SECONDS);
+    last = findQuietestPoint(buffer, searchFrom, target);
+    boundaries.push(last);
+  }
+  boundaries.push(duration);
+
+  const chunks: AudioChunk[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    chunks.push({
+      index: i,
+      start: boundaries[i],
+      end: Math.min(duration, boundaries[i + 1] + CHUNK_OVERLAP_SECONDS),
+    });
+  }
+  return chunks;
+}
+
+/** Encodes a time range of the buffer as a 16-bit mono WAV file. */
+export function encodeWav(
+  buffer: AudioBuffer,
+  start: number,
+  end: number,
+): Blob {
+  const rate = buffer.sampleRate;
+  const from = Math.max(0, Math.floor(start * rate));
+  const to = Math.min(buffer.length, Math.ceil(end * rate));
+  const samples = mixToMono(buffer, from, to);
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, rate, true);
+  view.setUint32(28, rate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Blob([view], {type: 'audio/wav'});
+}
+
+/**
+ * Runs the tasks with at most `limit` in flight, preserving result order.
+ * Stops scheduling new tasks once one has failed.
+ */
+export async function runWithConcurrency<T>(
+  tasks: Array<() => Promise<T>>,
+  limit: number,
+): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < tasks.length) {
+      const index = next++;
+      try {
+        results[index] = await tasks[index]();
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  const workers = Array.from({length: Math.min(limit, tasks.length)}, worker);
+  await Promise.all(workers);
+  return results;
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+/**
+ * Returns how many leading words of `next` repeat the trailing words of
+ * `previous`, i.e. the words both chunks transcribed from the overlap.
+ */
+function countSeamOverlap(previous: string, next: string): number {
+  const tail = previous.split(/\s+/).filter(Boolean).slice(-SEAM_MAX_WORDS);
+  const head = next.split(/\s+/).filter(Boolean).slice(0, SEAM_MAX_WORDS);
+  const tailNorm = tail.map(normalizeWord);
+  const headNorm = head.map(normalizeWord);
+  for (let k = Math.min(tail.length, head.length); k >= SEAM_MIN_WORDS; k--) {
+    let matches = true;
+    for (let i = 0; i < k; i++) {
+      if (tailNorm[tail.length - k + i] !== headNorm[i]) {
+        matches = false;
+        break;
+      }
+    }
+    if (matches) return k;
+  }
+  return 0;
+}
+
+/**
+ * Joins per-chunk segments (with chunk-relative times) into one transcript.
+ * Segments a chunk transcribed past its boundary are dropped in favour of
+ * the next chunk's copy, and words repeated across the seam are removed.
+ */
+export function stitchChunkSegments(
+  chunks: AudioChunk[],
+  chunkSegments: TranscriptSegment[][],
+): TranscriptSegment[] {
+  const stitched: TranscriptSegment[] = [];
+  chunks.forEach((chunk, i) => {
+    const boundary = i + 1 < chunks.length ? chunks[i + 1].start : Infinity;
+    let segments = chunkSegments[i]
+      .map((segment) => ({
+        ...segment,
+        start: segment.start + chunk.start,
+        end: segment.end + chunk.start,
+      }))
+      .filter((segment) => segment.start < boundary);
+
+    const previous = stitched[stitched.length - 1];
+    if (previous && segments.length > 0) {
+      const first = segments[0];
+      const overlap = countSeamOverlap(previous.text, first.text);
+      if (overlap > 0) {
+        const remaining = first.text
+          .split(/\s+/)
+          .filter(Boolean)
+          .slice(overlap);
+        segments =
+          remaining.length > 0
+            ? [{...first, text: remaining.join(' ')}, ...segments.slice(1)]
+            : segments.slice(1);
+      }
+    }
+    stitched.push(...segments);
+  });
+  return stitched;
+}
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Classifies failed Gemini requests so each kind of failure gets its own
+// message, and retries the transient ones with exponential backoff.
+
+export type GeminiErrorKind =
+  | 'auth'
+  | 'rate-limit'
+  | 'safety'
+  | 'empty'
+  | 'network'
+  | 'server'
+  | 'unsupported-type'
+  | 'too-large'
+  | 'unknown';
+
+const ERROR_MESSAGES: Record<GeminiErrorKind, string> = {
+  auth: 'The Gemini API key is missing or invalid. Check it in Settings.',
+  'rate-limit': 'The Gemini rate limit or quota has been reached.',
+  safety: 'Gemini blocked the response for safety reasons.',
+  empty: 'Gemini returned an empty response.',
+  network: 'Could not reach Gemini. Check your internet connection.',
+  server: 'Gemini is temporarily unavailable.',
+  'unsupported-type':
+    'This audio format is not supported. Try MP3, M4A, WAV, OGG or FLAC.',
+  'too-large':
+    'This recording is too large to send in one request and could not be split into parts. Try converting it to MP3 or trimming it.',
+  unknown: 'Something went wrong while talking to Gemini.',
+};
+
+const TRANSIENT_KINDS = new Set<GeminiErrorKind>([
+  'rate-limit',
+  'network',
+  'server',
+]);
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+export class GeminiError extends Error {
+  constructor(
+    readonly kind: GeminiErrorKind,
+    message = ERROR_MESSAGES[kind],
+    cause?: unknown,
+  ) {
+    super(message, {cause});
+    this.name = 'GeminiError';
+  }
+
+  get isTransient(): boolean {
+    return TRANSIENT_KINDS.has(this.kind);
+  }
+}
+
+function classifyKind(error: unknown): GeminiErrorKind {
+  const message = error instanceof Error ? error.message : String(error);
+  // The SDK reports HTTP failures as "got status: 429 Too Many Requests. {...}".
+  const status = Number(/got status: (\d{3})/.exec(message)?.[1] ?? 0);
+  if (status === 401 || status === 403 || /API[ _]?KEY/i.test(message)) {
+    return 'auth';
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return 'rate-limit';
+  }
+  if (/mime ?type|unsupported (audio|file|media)/i.test(message)) {
+    return 'unsupported-type';
+  }
+  if (status === 413 || /payload size|request too large/i.test(message)) {
+    return 'too-large';
+  }
+  if (/\bSAFETY\b|PROHIBITED_CONTENT|\bblocked\b/i.test(message)) {
+    return 'safety';
+  }
+  if (status >= 500) return 'server';
+  if (
+    !status &&
+    (error instanceof TypeError ||
+      /failed to fetch|network|load failed/i.test(message) ||
+      !navigator.onLine)
+  ) {
+    return 'network';
+  }
+  return 'unknown';
+}
+
+export function classifyGeminiError(error: unknown): GeminiError {
+  if (error instanceof GeminiError) return error;
+  const kind = classifyKind(error);
+  return new GeminiError(kind, ERROR_MESSAGES[kind], error);
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, {once: true});
+  });
+}
+
+/**
+ * Runs a Gemini request, retrying rate limits, network and server errors up
+ * to MAX_RETRIES times with exponential backoff. Other failures are thrown
+ * right away as a classified GeminiError.
+ */
+export async function withRetry<T>(
+  run: () => Promise<T>,
+  signal: AbortSignal,
+  onRetry?: (error: GeminiError, delayMs: number) => void,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (signal.aborted) throw error;
+      const classified = classifyGeminiError(error);
+      if (!classified.isTransient || attempt >= MAX_RETRIES) throw classified;
+      // Jitter keeps concurrent requests from retrying in lockstep.
+      const delayMs =
+        Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt) *
+        (0.75 + Math.random() * 0.5);
+      console.warn(`Retrying Gemini request in ${delayMs}ms:`, error);
+      onRetry?.(classified, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+export function describeRetry(error: GeminiError, delayMs: number): string {
+  return `${error.message} Retrying in ${Math.ceil(delayMs / 1000)}s...`;
+}
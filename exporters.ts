@@ -0,0 +1,272 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Converts notes to downloadable files and reads JSON backups back in.
+
+import {renderMarkdown} from './markdown';
+import {validateFolder, validateNote} from './storage';
+import {TranscriptSegment} from './transcript';
+import {Folder, Note} from './types';
+
+export type ExportFormat =
+  'markdown' | 'html' | 'text' | 'srt' | 'vtt' | 'json';
+
+export const EXPORT_FORMATS: Array<{format: ExportFormat; label: string}> = [
+  {format: 'markdown', label: 'Markdown (.md)'},
+  {format: 'html', label: 'HTML page (.html)'},
+  {format: 'text', label: 'Plain text transcript (.txt)'},
+  {format: 'srt', label: 'Subtitles (.srt)'},
+  {format: 'vtt', label: 'Subtitles (.vtt)'},
+  {format: 'json', label: 'Full backup (.json)'},
+];
+
+const BACKUP_FORMAT = 'voice-notes-backup';
+const BACKUP_VERSION = 1;
+
+export interface BackupAudio {
+  mimeType: string;
+  data: string; // base64
+}
+
+export interface ImportedBackup {
+  notes: Note[];
+  folders: Folder[];
+  // Each note's audio parts, its first recording first.
+  audio: Map<string, Blob[]>;
+  skipped: number;
+}
+
+export function hasTiming(note: Note): boolean {
+  return !!note.segments && note.segments.length > 0;
+}
+
+export function safeFilename(title: string, fallback = 'note'): string {
+  const name = title
+    .replace(/[\\/:*?"<>|]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, 80);
+  return name || fallback;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function noteTitle(note: Note): string {
+  return note.title || 'Untitled Note';
+}
+
+export function noteToMarkdown(note: Note): string {
+  const body = note.polishedNote.trim() || note.rawTranscription.trim();
+  // Polished notes usually open with their own heading.
+  if (body.startsWith('#')) return body + '\n';
+  return `# ${noteTitle(note)}\n\n${body}\n`;
+}
+
+export function notesToMarkdown(notes: Note[]): string {
+  return notes.map(noteToMarkdown).join('\n---\n\n');
+}
+
+export function noteToText(note: Note): string {
+  return `${noteTitle(note)}\n\n${note.rawTranscription.trim()}\n`;
+}
+
+export function notesToText(notes: Note[]): string {
+  return notes.map(noteToText).join('\n\n');
+}
+
+export function notesToHtml(notes: Note[]): string {
+  const pageTitle =
+    notes.length === 1 ? noteTitle(notes[0]) : `${notes.length} notes`;
+  const sections = notes
+    .map((note) => {
+      const date = new Date(note.timestamp).toLocaleString();
+      return `<article>
+<p class="meta">${escapeHtml(noteTitle(note))} &middot; ${escapeHtml(date)}</p>
+${renderMarkdown(noteToMarkdown(note))}
+</article>`;
+    })
+    .join('\n<hr>\n');
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(pageTitle)}</title>
+<style>
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; max-width: 760px; margin: 40px auto; padding: 0 20px; line-height: 1.65; color: #333; }
+.meta { color: #888; font-size: 13px; }
+pre, code { background: #f4f4f4; border-radius: 4px; }
+pre { padding: 1em; overflow-x: auto; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #ddd; padding: 4px 8px; }
+hr { border: none; border-top: 1px solid #ddd; margin: 40px 0; }
+</style>
+</head>
+<body>
+${sections}
+</body>
+</html>
+`;
+}
+
+function formatCueTime(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}${separator}${String(ms).padStart(3, '0')}`;
+}
+
+function cueEnd(segment: TranscriptSegment): number {
+  // Some segments come back with identical start and end times.
+  return segment.end > segment.start ? segment.end : segment.start + 2;
+}
+
+export function segmentsToSrt(segments: TranscriptSegment[]): string {
+  return segments
+    .map(
+      (segment, index) =>
+        `${index + 1}\n${formatCueTime(segment.start, ',')} --> ${formatCueTime(cueEnd(segment), ',')}\n${segment.speaker}: ${segment.text}\n`,
+    )
+    .join('\n');
+}
+
+/** Escapes the characters WebVTT cue text reserves for markup. */
+function escapeCueText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+export function segmentsToVtt(segments: TranscriptSegment[]): string {
+  const cues = segments
+    .map(
+      (segment) =>
+        `${formatCueTime(segment.start, '.')} --> ${formatCueTime(cueEnd(segment), '.')}\n<v ${escapeCueText(segment.speaker)}>${escapeCueText(segment.text)}\n`,
+    )
+    .join('\n');
+  return `WEBVTT\n\n${cues}`;
+}
+
+/**
+ * Builds a backup file. `audio` holds each note's audio parts, its first
+ * recording first; the recordings added to a note later go in `addedAudio`.
+ */
+export function createBackup(
+  notes: Note[],
+  audio: Map<string, BackupAudio[]>,
+  folders: Folder[] = [],
+): string {
+  return JSON.stringify({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    folders,
+    notes: notes.map((note) => {
+      const [first, ...added] = audio.get(note.id) ?? [];
+      return {
+        ...note,
+        audio: first,
+        addedAudio: added.length ? added : undefined,
+      };
+    }),
+  });
+}
+
+function isBackupAudio(value: unknown): value is BackupAudio {
+  if (!value || typeof value !== 'object') return false;
+  const audio = value as Record<string, unknown>;
+  return typeof audio.data === 'string' && typeof audio.mimeType === 'string';
+}
+
+function base64ToBlob(data: string, mimeType: string): Blob {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], {type: mimeType});
+}
+
+/** Parses a backup file. Throws if the file is not a backup at all. */
+export function parseBackup(json: string): ImportedBackup {
+  const data = JSON.parse(json);
+  if (!data || data.format !== BACKUP_FORMAT || !Array.isArray(data.notes)) {
+    throw new Error('Not a voice notes backup file');
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new Error('Backup was made by a newer version of the app');
+  }
+  const notes: Note[] = [];
+  const audio = new Map<string, Blob[]>();
+  let skipped = 0;
+  data.notes.forEach((record: unknown) => {
+    const {
+      audio: backupAudio,
+      addedAudio,
+      ...fields
+    } = record && typeof record === 'object'
+      ? (record as Record<string, unknown>)
+      : {};
+    const note = validateNote(fields);
+    if (!note) {
+      skipped++;
+      return;
+    }
+    if (isBackupAudio(backupAudio)) {
+      const parts = [backupAudio];
+      const added = Array.isArray(addedAudio) ? addedAudio : [];
+      for (const part of added.slice(0, note.audioParts?.length ?? 0)) {
+        if (!isBackupAudio(part)) break;
+        parts.push(part);
+      }
+      audio.set(
+        note.id,
+        parts.map((part) => base64ToBlob(part.data, part.mimeType)),
+      );
+      note.hasAudio = true;
+      // Only the parts in the backup can be played back.
+      if (parts.length > 1) {
+        note.audioParts = note.audioParts!.slice(0, parts.length - 1);
+      } else {
+        delete note.audioParts;
+      }
+    } else {
+      // The importer keeps audio already stored for an existing note.
+      delete note.hasAudio;
+      delete note.audioParts;
+    }
+    notes.push(note);
+  });
+  // Backups made before folders existed have no `folders` field.
+  const folders = Array.isArray(data.folders)
+    ? data.folders
+        .map(validateFolder)
+        .filter((folder: Folder | null): folder is Folder => !!folder)
+    : [];
+  return {notes, folders, audio, skipped};
+}
+
+export function downloadFile(
+  filename: string,
+  content: string,
+  mimeType: string,
+): void {
+  const url = URL.createObjectURL(new Blob([content], {type: mimeType}));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
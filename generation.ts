@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Helpers for streaming Gemini responses and cancelling them part-way.
+
+import {
+  GenerateContentParameters,
+  GenerateContentResponse,
+  GoogleGenAI,
+} from '@google/genai';
+import {GeminiError} from './errors';
+
+// Finish reasons of a candidate that was cut off by a content filter.
+const BLOCKED_FINISH_REASONS = new Set([
+  'SAFETY',
+  'RECITATION',
+  'BLOCKLIST',
+  'PROHIBITED_CONTENT',
+  'SPII',
+]);
+
+/** Rejects with the signal's reason as soon as it aborts. */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal: AbortSignal,
+): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, {once: true});
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    );
+  });
+}
+
+/**
+ * Streams a generateContent request, calling `onText` with the accumulated
+ * text after every chunk. Resolves with the full text, or rejects with the
+ * signal's reason if it aborts first. A response blocked by Gemini's safety
+ * filters before producing any text rejects with a 'safety' GeminiError.
+ */
+export async function streamGeneratedText(
+  genAI: GoogleGenAI,
+  params: GenerateContentParameters,
+  signal: AbortSignal,
+  onText?: (text: string) => void,
+): Promise<string> {
+  const stream: AsyncGenerator<GenerateContentResponse> = await abortable(
+    genAI.models.generateContentStream(params),
+    signal,
+  );
+  let text = '';
+  let blocked = false;
+  try {
+    while (true) {
+      const {value, done} = await abortable(stream.next(), signal);
+      if (done) break;
+      const finishReason = value.candidates?.[0]?.finishReason;
+      if (
+        value.promptFeedback?.blockReason ||
+        (finishReason && BLOCKED_FINISH_REASONS.has(finishReason))
+      ) {
+        blocked = true;
+      }
+      if (value.text) {
+        text += value.text;
+        onText?.(text);
+      }
+    }
+  } finally {
+    if (signal.aborted) stream.return(undefined).catch(() => {});
+  }
+  if (blocked && !text.trim()) throw new GeminiError('safety');
+  return text;
+}
+
+/**
+ * Wraps a render callback so that bursts of calls within one animation frame
+ * only render the latest value.
+ */
+export function throttleToAnimationFrame<T>(render: (value: T) => void): {
+  (value: T): void;
+  cancel(): void;
+} {
+  let frameId: number | null = null;
+  let latest: T;
+  const throttled = (value: T) => {
+    latest = value;
+    if (frameId !== null) return;
+    frameId = requestAnimationFrame(() => {
+      frameId = null;
+      render(latest);
+    });
+  };
+  throttled.cancel = () => {
+    if (frameId !== null) cancelAnimationFrame(frameId);
+    frameId = null;
+  };
+  return throttled;
+}
@@ -0,0 +1,352 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// A user-managed glossary of domain terms such as drug names, eponyms and
+// abbreviations, each with the ways it is often misheard. It is given to
+// the transcriber and to polishing, used to correct transcripts locally and
+// to point out words in a note that look like a misheard glossary term.
+
+import {segmentsToText} from './transcript';
+import {TranscriptResult} from './transcription';
+
+export interface GlossaryTerm {
+  term: string;
+  // Ways the term is often misheard, replaced by the term in transcripts.
+  variants: string[];
+}
+
+export interface GlossaryPart {
+  text: string;
+  mark?: 'corrected' | 'unknown';
+  // The glossary term a marked part was corrected to or looks like.
+  term?: string;
+}
+
+const GLOSSARY_KEY = 'glossary';
+// Whisper only reads the last 224 tokens of its prompt.
+const MAX_VOCABULARY_CHARS = 800;
+// Words shorter than this are not compared with glossary terms.
+const MIN_UNKNOWN_LENGTH = 5;
+
+const WORD_PATTERN = /[\p{L}][\p{L}\p{N}'’-]*/gu;
+
+export function loadGlossary(): GlossaryTerm[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(GLOSSARY_KEY) || '[]');
+    return Array.isArray(saved)
+      ? saved.filter(
+          (entry) =>
+            entry &&
+            typeof entry.term === 'string' &&
+            Array.isArray(entry.variants),
+        )
+      : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+export function saveGlossary(terms: GlossaryTerm[]): void {
+  localStorage.setItem(GLOSSARY_KEY, JSON.stringify(terms));
+}
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+  return rows;
+}
+
+/**
+ * Reads a glossary from CSV: the term in the first column and the ways it
+ * is misheard in the following columns, or separated by semicolons. A
+ * "term" header row is skipped and repeated terms are merged.
+ */
+export function parseGlossaryCsv(text: string): GlossaryTerm[] {
+  const terms = new Map<string, GlossaryTerm>();
+  parseCsvRows(text).forEach((row, index) => {
+    const [first = '', ...rest] = row.map((cell) => cell.trim());
+    if (!first || (index === 0 && /^terms?$/i.test(first))) return;
+    const key = first.toLowerCase();
+    const entry = terms.get(key) ?? {term: first, variants: []};
+    rest
+      .flatMap((cell) => cell.split(';'))
+      .map((variant) => variant.trim())
+      .forEach((variant) => {
+        if (
+          variant &&
+          variant.toLowerCase() !== key &&
+          !entry.variants.some((v) => v.toLowerCase() === variant.toLowerCase())
+        ) {
+          entry.variants.push(variant);
+        }
+      });
+    terms.set(key, entry);
+  });
+  return Array.from(terms.values());
+}
+
+export function formatGlossaryCsv(terms: GlossaryTerm[]): string {
+  const cell = (value: string) =>
+    /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  return terms
+    .map((entry) => [entry.term, ...entry.variants].map(cell).join(', '))
+    .join('\n');
+}
+
+/** Instructions naming the glossary terms, or '' if there are none. */
+export function buildGlossaryPrompt(terms: GlossaryTerm[]): string {
+  if (terms.length === 0) return '';
+  const list = terms
+    .map((entry) =>
+      entry.variants.length
+        ? `${entry.term} (often misheard as ${entry.variants.map((v) => `"${v}"`).join(', ')})`
+        : entry.term,
+    )
+    .join('; ');
+  return ` The recording may contain these terms; spell them exactly as written here: ${list}.`;
+}
+
+/** The terms as a short comma-separated list, for Whisper's prompt. */
+export function glossaryVocabulary(terms: GlossaryTerm[]): string {
+  let vocabulary = '';
+  for (const {term} of terms) {
+    const next = vocabulary ? `${vocabulary}, ${term}` : term;
+    if (next.length > MAX_VOCABULARY_CHARS) break;
+    vocabulary = next;
+  }
+  return vocabulary;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Matches any of the phrases as whole words, ignoring case and spacing. */
+function buildPhraseMatcher(phrases: string[]): RegExp | null {
+  if (phrases.length === 0) return null;
+  const alternatives = [...phrases]
+    .sort((a, b) => b.length - a.length)
+    .map((phrase) =>
+      phrase
+        .trim()
+        .split(/[\s-]+/)
+        .map(escapeRegExp)
+        .join('[\\s-]+'),
+    );
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`,
+    'giu',
+  );
+}
+
+function normalizePhrase(phrase: string): string {
+  return phrase
+    .toLowerCase()
+    .split(/[\s-]+/)
+    .join(' ');
+}
+
+/**
+ * Builds a function that replaces misheard variants in a text with their
+ * terms, adding the terms it put in to `corrected`.
+ */
+function buildCorrector(
+  terms: GlossaryTerm[],
+  corrected: Set<string>,
+): (text: string) => string {
+  const replacements = new Map<string, string>();
+  terms.forEach((entry) => {
+    entry.variants.forEach((variant) =>
+      replacements.set(normalizePhrase(variant), entry.term),
+    );
+    // Also fixes the capitalization of terms such as "HOCM" or "Kussmaul",
+    // but leaves lowercase terms capitalized at the start of a sentence.
+    if (entry.term !== entry.term.toLowerCase()) {
+      replacements.set(normalizePhrase(entry.term), entry.term);
+    }
+  });
+  const matcher = buildPhraseMatcher(Array.from(replacements.keys()));
+  if (!matcher) return (text) => text;
+  return (text) =>
+    text.replace(matcher, (match) => {
+      const term = replacements.get(normalizePhrase(match)) ?? match;
+      if (term !== match) corrected.add(term);
+      return term;
+    });
+}
+
+/**
+ * Replaces every misheard variant in a transcript with its glossary term.
+ * Also returns the terms that were put in.
+ */
+export function correctTranscript(
+  transcript: TranscriptResult,
+  terms: GlossaryTerm[],
+): {transcript: TranscriptResult; corrected: string[]} {
+  const corrected = new Set<string>();
+  if (terms.length === 0) return {transcript, corrected: []};
+  const correct = buildCorrector(terms, corrected);
+  const segments =
+    transcript.segments?.map((segment) => ({
+      ...segment,
+      text: correct(segment.text),
+    })) ?? null;
+  return {
+    transcript: {
+      ...transcript,
+      segments,
+      text: segments ? segmentsToText(segments) : correct(transcript.text),
+    },
+    corrected: Array.from(corrected),
+  };
+}
+
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let previous = Array.from({length: b.length + 1}, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Strips common English endings so that plurals and other inflections of a
+ * glossary term, such as "statins" or "Kussmaul's", match the term itself.
+ */
+function stemWord(word: string): string {
+  return word
+    .replace(/['’]s$/, '')
+    .replace(/ies$/, 'y')
+    .replace(/(?:es|s|ed|ing)$/, '')
+    .replace(/e$/, '');
+}
+
+/**
+ * Builds a function that splits text into parts for review: glossary terms
+ * the note's transcript was corrected to, and words that are not glossary
+ * terms but are spelled almost like one, which are likely misheard. Build
+ * it once per render; it remembers the words it has already compared.
+ */
+export function buildGlossaryMarker(
+  terms: GlossaryTerm[],
+  corrected: string[] = [],
+): (text: string) => GlossaryPart[] {
+  if (terms.length === 0 && corrected.length === 0) return (text) => [{text}];
+  const correctedMatcher = buildPhraseMatcher(corrected);
+  const known = new Set(
+    terms.flatMap((entry) => {
+      const term = entry.term.toLowerCase();
+      // Also the plural of terms such as "stenosis", which is "stenoses".
+      return [term, term.replace(/sis$/, 'ses')].map(stemWord);
+    }),
+  );
+  const candidates = terms
+    .map((entry) => entry.term)
+    .filter((term) => !/\s/.test(term) && term.length >= MIN_UNKNOWN_LENGTH);
+  const lookalikes = new Map<string, string | null>();
+  const findLookalike = (word: string): string | null => {
+    if (!lookalikes.has(word)) {
+      const limit = word.length >= 8 ? 2 : 1;
+      lookalikes.set(
+        word,
+        candidates.find(
+          (term) => editDistance(word, term.toLowerCase(), limit) <= limit,
+        ) ?? null,
+      );
+    }
+    return lookalikes.get(word)!;
+  };
+
+  return (text) => {
+    const marks: Array<GlossaryPart & {start: number; end: number}> = [];
+    if (correctedMatcher) {
+      for (const match of text.matchAll(correctedMatcher)) {
+        marks.push({
+          start: match.index!,
+          end: match.index! + match[0].length,
+          text: match[0],
+          mark: 'corrected',
+          term: match[0],
+        });
+      }
+    }
+    const isMarked = (index: number) =>
+      marks.some((mark) => index >= mark.start && index < mark.end);
+    for (const match of text.matchAll(WORD_PATTERN)) {
+      const word = match[0].toLowerCase();
+      if (
+        word.length < MIN_UNKNOWN_LENGTH ||
+        known.has(stemWord(word)) ||
+        isMarked(match.index!)
+      ) {
+        continue;
+      }
+      const term = findLookalike(word);
+      if (term) {
+        marks.push({
+          start: match.index!,
+          end: match.index! + match[0].length,
+          text: match[0],
+          mark: 'unknown',
+          term,
+        });
+      }
+    }
+
+    marks.sort((a, b) => a.start - b.start);
+    const parts: GlossaryPart[] = [];
+    let last = 0;
+    marks.forEach(({start, end, text: markText, mark, term}) => {
+      if (start > last) parts.push({text: text.slice(last, start)});
+      parts.push({text: markText, mark, term});
+      last = end;
+    });
+    if (last < text.length) parts.push({text: text.slice(last)});
+    return parts;
+  };
+}
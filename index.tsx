@@ -5,35 +5,300 @@
 /* tslint:disable */
 
 import {GoogleGenAI} from '@google/genai';
-import {marked} from 'marked';
+import {
+  CHUNK_CONCURRENCY,
+  CHUNK_TARGET_SECONDS,
+  createAudioContext,
+  decodeAudio,
+  encodeWav,
+  planChunks,
+  runWithConcurrency,
+  stitchChunkSegments,
+} from './chunking';
+import {
+  GeminiError,
+  classifyGeminiError,
+  describeRetry,
+  withRetry,
+} from './errors';
+import {
+  BackupAudio,
+  EXPORT_FORMATS,
+  ExportFormat,
+  createBackup,
+  downloadFile,
+  hasTiming,
+  notesToHtml,
+  notesToMarkdown,
+  notesToText,
+  parseBackup,
+  safeFilename,
+  segmentsToSrt,
+  segmentsToVtt,
+} from './exporters';
+import {
+  abortable,
+  streamGeneratedText,
+  throttleToAnimationFrame,
+} from './generation';
+import {
+  GlossaryPart,
+  GlossaryTerm,
+  buildGlossaryMarker,
+  correctTranscript,
+  formatGlossaryCsv,
+  loadGlossary,
+  parseGlossaryCsv,
+  saveGlossary,
+} from './glossary';
+import {MarkdownFormat, applyMarkdownFormat, renderMarkdown} from './markdown';
+import {
+  TAG_SUGGESTION_SCHEMA,
+  buildTagPrompt,
+  collectTags,
+  flattenFolderTree,
+  getChildFolders,
+  getFolderPath,
+  getFolderSubtreeIds,
+  parseTagInput,
+  parseTagSuggestions,
+  repairFolderTree,
+  uniqueTags,
+} from './organize';
+import {
+  AudioProcessingStats,
+  describeAudioProcessing,
+  preprocessAudio,
+} from './preprocess';
+import {
+  buildRefinePrompt,
+  buildRewritePrompt,
+  fitReplacement,
+  stripMarkdownFence,
+} from './refine';
+import {
+  ChatSource,
+  ChatTurn,
+  EmbeddingIndex,
+  buildChatPrompt,
+  embedNote,
+  embedQuery,
+  hashNoteContent,
+  selectSources,
+} from './retrieval';
+import {
+  DiffLine,
+  NoteRevision,
+  RevisionField,
+  RevisionSource,
+  createRevision,
+  diffLines,
+  isSameContent,
+} from './revisions';
+import {
+  SearchIndex,
+  findSnippet,
+  highlightMatches,
+  markdownToPlainText,
+  viewsToPlainText,
+} from './search';
+import {
+  AppSettings,
+  MODEL_OPTIONS,
+  createGenAI,
+  createTranscriber,
+  effectiveApiKey,
+  loadSettings,
+  saveSettings,
+  validateSettings,
+} from './settings';
+import {
+  STUDY_SCHEMA,
+  StudyMaterial,
+  buildStudyPrompt,
+  parseStudyMaterial,
+  studyToAnkiText,
+} from './study';
+import {
+  StorageError,
+  clearNoteRecords,
+  deleteAudio,
+  deleteFolderRecord,
+  deleteNoteRecord,
+  loadAudio,
+  loadAudioParts,
+  loadEmbeddingRecords,
+  loadFolderRecords,
+  loadNoteRecords,
+  loadRevisions,
+  saveAudio,
+  saveEmbeddingRecord,
+  saveFolderRecord,
+  saveNoteRecord,
+  saveRevision,
+} from './storage';
+import {
+  TRANSCRIPT_LANGUAGES,
+  TranscriptSegment,
+  appendTranscript,
+  findSegmentIndexAt,
+  formatTimestamp,
+  getSpeakers,
+  mapSegmentTimes,
+  mostCommonLanguage,
+  replaceSpeakerName,
+  segmentsToText,
+} from './transcript';
+import {
+  GeminiTranscriber,
+  MAX_INLINE_AUDIO_BYTES,
+  TRANSCRIBER_LABELS,
+  Transcriber,
+  TranscriptResult,
+  blobToBase64,
+  isTranscriberId,
+} from './transcription';
+import {
+  buildTranslationPrompt,
+  isTranslationStale,
+  upsertTranslation,
+} from './translation';
+import {
+  BUILT_IN_TEMPLATES,
+  PolishTemplate,
+  buildPolishPrompt,
+  deriveNoteTitle,
+  loadDefaultTemplateId,
+  loadUserTemplates,
+  saveDefaultTemplateId,
+  saveUserTemplates,
+} from './templates';
+import {Folder, Note, NoteFailure, PendingProcessing} from './types';
+import {
+  NOTE_VIEWS,
+  NoteViewId,
+  buildViewPrompt,
+  getViewSource,
+  isNoteViewId,
+  isViewStale,
+} from './views';
+import {
+  UPLOAD_STATUS_LABELS,
+  UploadJob,
+  UploadQueue,
+  collectDroppedAudioFiles,
+} from './uploads';
 
-const MODEL_NAME = 'gemini-2.5-flash';
+const LIVE_SLICE_MS = 30000;
+const SEARCH_DEBOUNCE_MS = 150;
+const AUTOSAVE_DELAY_MS = 1000;
+// User edits closer together than this are kept as a single revision.
+const USER_REVISION_MERGE_MS = 5 * 60 * 1000;
+// Unchanged lines shown around each change in the revision diff.
+const DIFF_CONTEXT_LINES = 3;
+// Notes are re-embedded once edits have paused for this long.
+const EMBEDDING_DELAY_MS = 5000;
+const CHAT_RETRIEVAL_LIMIT = 12;
 
-interface Note {
-  id: string;
-  title: string;
-  rawTranscription: string;
-  polishedNote: string;
-  timestamp: number;
+type NoteSort = 'relevance' | 'newest' | 'oldest' | 'title';
+type EditorMode = 'preview' | 'source' | 'split';
+
+/** A rewritten passage of the polished note waiting to be accepted. */
+interface PendingRewrite {
+  noteId: string;
+  start: number;
+  original: string;
+  replacement: string;
 }
 
+// Keyboard shortcuts of the Markdown editor, used with Ctrl or Cmd.
+const FORMAT_SHORTCUTS: Record<string, MarkdownFormat> = {
+  KeyB: 'bold',
+  KeyI: 'italic',
+  KeyE: 'code',
+  KeyK: 'link',
+  'Shift+KeyH': 'heading',
+  'Shift+Digit7': 'numbered',
+  'Shift+Digit8': 'bullet',
+  'Shift+Digit9': 'checklist',
+  'Shift+Period': 'quote',
+};
+
+// Drag-and-drop payload types for moving notes and folders in the sidebar.
+const NOTE_DRAG_TYPE = 'application/x-voice-note-ids';
+const FOLDER_DRAG_TYPE = 'application/x-voice-note-folder';
+const NEW_FOLDER_OPTION = '__new__';
+
+type NoteTabId = 'note' | 'raw' | NoteViewId | 'translation';
+
+// The tabs above the note, in order: the polished note, the raw transcript,
+// one for each generated view and the side-by-side translation.
+const NOTE_TABS: Array<{id: NoteTabId; label: string}> = [
+  {id: 'note', label: 'Polished'},
+  {id: 'raw', label: 'Raw'},
+  ...NOTE_VIEWS.map(({id, label}) => ({id, label})),
+  {id: 'translation', label: 'Translation'},
+];
+
 class VoiceNotesApp {
-  private genAI: any;
+  private genAI: GoogleGenAI;
+  private settings: AppSettings = loadSettings();
+  private glossary: GlossaryTerm[] = loadGlossary();
   private mediaRecorder: MediaRecorder | null = null;
   private recordButton: HTMLButtonElement;
   private recordingStatus: HTMLDivElement;
   private rawTranscription: HTMLDivElement;
   private polishedNote: HTMLDivElement;
+  private polishedPane: HTMLDivElement;
+  private polishedSource: HTMLTextAreaElement;
+  private editorMode: EditorMode = 'preview';
+  private renderPreviewThrottled = throttleToAnimationFrame(
+    (markdown: string) => this.renderPolishedPreview(markdown),
+  );
   private newButton: HTMLButtonElement;
   private uploadButton: HTMLButtonElement;
+  private stopGenerationButton: HTMLButtonElement;
+  private generationController: AbortController | null = null;
   private audioUploadInput: HTMLInputElement;
   private themeToggleButton: HTMLButtonElement;
   private themeToggleIcon: HTMLElement;
   private audioChunks: Blob[] = [];
   private isRecording = false;
+  private liveToggleButton: HTMLButtonElement;
+  private continueNoteButton: HTMLButtonElement;
+  private continueNoteEnabled = false;
+  private pauseButton: HTMLButtonElement;
+  private isPaused = false;
+  private pausedAt = 0;
+  private liveTranscriptDisplay: HTMLDivElement;
+  private liveTranscriptionEnabled = false;
+  private sliceRecorder: MediaRecorder | null = null;
+  private sliceIntervalId: number | null = null;
+  private liveSegments: TranscriptSegment[] = [];
+  // The language detected in each live slice.
+  private liveLanguages: Array<string | undefined> = [];
+  private liveQueue: Promise<void> = Promise.resolve();
+  // Aborts the live slices' transcription. It is separate from the shared
+  // generation, so the Stop button and other generations started during a
+  // recording cannot cut its transcript short.
+  private liveController: AbortController | null = null;
+  private liveSliceFailed = false;
+  private liveStartTime = 0;
   private currentNote: Note | null = null;
   private stream: MediaStream | null = null;
   private editorTitle: HTMLDivElement;
+  private audioPlayerContainer: HTMLDivElement;
+  private audioPlayer: HTMLAudioElement;
+  private audioStats: HTMLDivElement;
+  private microphoneSelect: HTMLSelectElement;
+  // The open note's audio parts, with the times in the note they start at.
+  private audioParts: Array<{start: number; url: string}> = [];
+  private audioPartIndex = 0;
+  private activeSegmentIndex = -1;
+  private autosaveTimeoutId: number | null = null;
+  // Parts of the note edited since it was last saved.
+  private dirtyPanes = new Set<'title' | 'polished' | 'raw'>();
+  private lastUserRevision: NoteRevision | null = null;
 
   private recordingInterface: HTMLDivElement;
   private liveRecordingTitle: HTMLDivElement;
@@ -56,11 +321,134 @@ class VoiceNotesApp {
   private clearAllButton: HTMLButtonElement;
   private sidebarToggleButton: HTMLButtonElement;
   private sidebarOverlay: HTMLDivElement;
+  private selectedNoteIds = new Set<string>();
+  private selectionBar: HTMLDivElement;
+  private selectionCount: HTMLSpanElement;
+  private exportMenu: HTMLDivElement;
+  private searchIndex = new SearchIndex();
+  private embeddingIndex = new EmbeddingIndex();
+  private embeddingQueue = new Set<string>();
+  private embeddingTimeoutId: number | null = null;
+  private embeddingRunning = false;
+  private pendingController: AbortController | null = null;
+  private processingNoteId: string | null = null;
+  private pendingRunning = false;
+  private uploadQueue = new UploadQueue({
+    process: (job, signal, update) => this.processUpload(job, signal, update),
+    onChange: () => this.renderUploadQueue(),
+    onStorageError: (context, error) => this.reportStorageError(context, error),
+  });
+  private uploadQueueElement: HTMLDivElement;
+  private uploadQueueSummary: HTMLSpanElement;
+  private uploadList: HTMLUListElement;
+  private searchInput: HTMLInputElement;
+  private dateFromInput: HTMLInputElement;
+  private dateToInput: HTMLInputElement;
+  private sortSelect: HTMLSelectElement;
+  private searchSummary: HTMLDivElement;
+  private searchTimeoutId: number | null = null;
+  private folders: Folder[] = [];
+  private collapsedFolderIds = new Set<string>();
+  private tagFilterSelect: HTMLSelectElement;
+  private tagOptions: HTMLDataListElement;
+  private moveMenu: HTMLDivElement;
+
+  // Folder and tags of the current note
+  private folderSelect: HTMLSelectElement;
+  private transcriberSelect: HTMLSelectElement;
+  private noteLanguage: HTMLSpanElement;
+  private noteTagsList: HTMLDivElement;
+  private tagInput: HTMLInputElement;
+  private tagSuggestions: HTMLDivElement;
+
+  // Study dialog
+  private studyDialog: HTMLDivElement;
+  private studyContent: HTMLDivElement;
+  private studyStatus: HTMLSpanElement;
+  private generateStudyButton: HTMLButtonElement;
+  private studyNote: Note | null = null;
+  // Study material is generated alongside, not instead of, transcription
+  // and polishing, so it has its own controller.
+  private studyController: AbortController | null = null;
+
+  // Revision history dialog
+  private historyDialog: HTMLDivElement;
+  private historyList: HTMLUListElement;
+  private historyDiff: HTMLDivElement;
+  private historyFieldSelect: HTMLSelectElement;
+  private historyCompareSelect: HTMLSelectElement;
+  private historyStatus: HTMLSpanElement;
+  private historyRevisions: NoteRevision[] = [];
+  private selectedRevisionId: string | null = null;
+
+  // Refinement bar and passage rewrite review
+  private refineBar: HTMLDivElement;
+  private refineInput: HTMLInputElement;
+  private rewriteReview: HTMLDivElement;
+  private rewriteDiff: HTMLDivElement;
+  private rewriteStatus: HTMLSpanElement;
+  private acceptRewriteButton: HTMLButtonElement;
+  private pendingRewrite: PendingRewrite | null = null;
+
+  // Chat over all notes
+  private chatDialog: HTMLDivElement;
+  private chatMessages: HTMLDivElement;
+  private chatInput: HTMLTextAreaElement;
+  private chatStatus: HTMLSpanElement;
+  private sendChatButton: HTMLButtonElement;
+  private chatTurns: ChatTurn[] = [];
+  private chatController: AbortController | null = null;
+
+  // Polishing templates
+  private templateSelect: HTMLSelectElement;
+  private userTemplates: PolishTemplate[] = [];
+  private defaultTemplateId = '';
+  private templatesDialog: HTMLDivElement;
+  private templateEditorSelect: HTMLSelectElement;
+  private templateNameInput: HTMLInputElement;
+  private templateInstructionsInput: HTMLTextAreaElement;
+  private templateStatus: HTMLSpanElement;
+  private settingsDialog: HTMLDivElement;
+  private apiKeyInput: HTMLInputElement;
+  private transcriptionModelSelect: HTMLSelectElement;
+  private polishingModelSelect: HTMLSelectElement;
+  private temperatureInput: HTMLInputElement;
+  private temperatureValue: HTMLSpanElement;
+  private transcriptLanguageSelect: HTMLSelectElement;
+  private polishLanguageSelect: HTMLSelectElement;
+  private defaultTranscriberSelect: HTMLSelectElement;
+  private whisperUrlInput: HTMLInputElement;
+  private whisperModelInput: HTMLInputElement;
+  private whisperApiKeyInput: HTMLInputElement;
+  private settingsStatus: HTMLSpanElement;
+  private glossaryDialog: HTMLDivElement;
+  private glossaryInput: HTMLTextAreaElement;
+  private glossaryStatus: HTMLSpanElement;
+  private tabNavigation: HTMLDivElement;
+  private activeTabIndicator: HTMLDivElement;
+  private activeTab: NoteTabId = 'note';
+  private generatedViewPane: HTMLDivElement;
+  private generatedViewStatus: HTMLSpanElement;
+  private generatedViewContent: HTMLDivElement;
+  private regenerateViewButton: HTMLButtonElement;
+  // In-flight view generations and translations, keyed by note id and
+  // view id, or by note id and "translation:" with the language.
+  private viewGenerations = new Map<string, AbortController>();
+  private translationPane: HTMLDivElement;
+  private translationLanguageSelect: HTMLSelectElement;
+  private translateButton: HTMLButtonElement;
+  private translationStatus: HTMLSpanElement;
+  private translationOriginalLabel: HTMLDivElement;
+  private translationOriginal: HTMLDivElement;
+  private translationLabel: HTMLDivElement;
+  private translationContent: HTMLDivElement;
+  private translationLanguage =
+    localStorage.getItem('translationLanguage') || 'English';
+  // The translation column being scrolled to follow the other one.
+  private scrollSyncTarget: HTMLElement | null = null;
 
   constructor() {
-    this.genAI = new GoogleGenAI({
-      apiKey: process.env.API_KEY,
-    });
+    this.genAI = createGenAI(this.settings);
 
     this.recordButton = document.getElementById(
       'recordButton',
@@ -74,10 +462,19 @@ class VoiceNotesApp {
     this.polishedNote = document.getElementById(
       'polishedNote',
     ) as HTMLDivElement;
+    this.polishedPane = document.getElementById(
+      'polishedPane',
+    ) as HTMLDivElement;
+    this.polishedSource = document.getElementById(
+      'polishedSource',
+    ) as HTMLTextAreaElement;
     this.newButton = document.getElementById('newButton') as HTMLButtonElement;
     this.uploadButton = document.getElementById(
       'uploadButton',
     ) as HTMLButtonElement;
+    this.stopGenerationButton = document.getElementById(
+      'stopGenerationButton',
+    ) as HTMLButtonElement;
     this.audioUploadInput = document.getElementById(
       'audioUpload',
     ) as HTMLInputElement;
@@ -90,6 +487,106 @@ class VoiceNotesApp {
     this.editorTitle = document.querySelector(
       '.editor-title',
     ) as HTMLDivElement;
+    this.audioPlayerContainer = document.getElementById(
+      'audioPlayerContainer',
+    ) as HTMLDivElement;
+    this.audioPlayer = document.getElementById(
+      'audioPlayer',
+    ) as HTMLAudioElement;
+    this.audioStats = document.getElementById('audioStats') as HTMLDivElement;
+    this.microphoneSelect = document.getElementById(
+      'microphoneSelect',
+    ) as HTMLSelectElement;
+    this.settingsDialog = document.getElementById(
+      'settingsDialog',
+    ) as HTMLDivElement;
+    this.apiKeyInput = document.getElementById(
+      'apiKeyInput',
+    ) as HTMLInputElement;
+    this.transcriptionModelSelect = document.getElementById(
+      'transcriptionModelSelect',
+    ) as HTMLSelectElement;
+    this.polishingModelSelect = document.getElementById(
+      'polishingModelSelect',
+    ) as HTMLSelectElement;
+    this.temperatureInput = document.getElementById(
+      'temperatureInput',
+    ) as HTMLInputElement;
+    this.temperatureValue = document.getElementById(
+      'temperatureValue',
+    ) as HTMLSpanElement;
+    this.transcriptLanguageSelect = document.getElementById(
+      'transcriptLanguageSelect',
+    ) as HTMLSelectElement;
+    this.polishLanguageSelect = document.getElementById(
+      'polishLanguageSelect',
+    ) as HTMLSelectElement;
+    this.defaultTranscriberSelect = document.getElementById(
+      'defaultTranscriberSelect',
+    ) as HTMLSelectElement;
+    this.whisperUrlInput = document.getElementById(
+      'whisperUrlInput',
+    ) as HTMLInputElement;
+    this.whisperModelInput = document.getElementById(
+      'whisperModelInput',
+    ) as HTMLInputElement;
+    this.whisperApiKeyInput = document.getElementById(
+      'whisperApiKeyInput',
+    ) as HTMLInputElement;
+    this.settingsStatus = document.getElementById(
+      'settingsStatus',
+    ) as HTMLSpanElement;
+    this.glossaryDialog = document.getElementById(
+      'glossaryDialog',
+    ) as HTMLDivElement;
+    this.glossaryInput = document.getElementById(
+      'glossaryInput',
+    ) as HTMLTextAreaElement;
+    this.glossaryStatus = document.getElementById(
+      'glossaryStatus',
+    ) as HTMLSpanElement;
+    this.tabNavigation = document.getElementById(
+      'tabNavigation',
+    ) as HTMLDivElement;
+    this.activeTabIndicator = this.tabNavigation.querySelector(
+      '.active-tab-indicator',
+    ) as HTMLDivElement;
+    this.generatedViewPane = document.getElementById(
+      'generatedViewPane',
+    ) as HTMLDivElement;
+    this.generatedViewStatus = document.getElementById(
+      'generatedViewStatus',
+    ) as HTMLSpanElement;
+    this.generatedViewContent = document.getElementById(
+      'generatedViewContent',
+    ) as HTMLDivElement;
+    this.regenerateViewButton = document.getElementById(
+      'regenerateViewButton',
+    ) as HTMLButtonElement;
+    this.translationPane = document.getElementById(
+      'translationPane',
+    ) as HTMLDivElement;
+    this.translationLanguageSelect = document.getElementById(
+      'translationLanguageSelect',
+    ) as HTMLSelectElement;
+    this.translateButton = document.getElementById(
+      'translateButton',
+    ) as HTMLButtonElement;
+    this.translationStatus = document.getElementById(
+      'translationStatus',
+    ) as HTMLSpanElement;
+    this.translationOriginalLabel = document.getElementById(
+      'translationOriginalLabel',
+    ) as HTMLDivElement;
+    this.translationOriginal = document.getElementById(
+      'translationOriginal',
+    ) as HTMLDivElement;
+    this.translationLabel = document.getElementById(
+      'translationLabel',
+    ) as HTMLDivElement;
+    this.translationContent = document.getElementById(
+      'translationContent',
+    ) as HTMLDivElement;
 
     this.recordingInterface = document.querySelector(
       '.recording-interface',
@@ -103,9 +600,28 @@ class VoiceNotesApp {
     this.liveRecordingTimerDisplay = document.getElementById(
       'liveRecordingTimerDisplay',
     ) as HTMLDivElement;
+    this.liveToggleButton = document.getElementById(
+      'liveToggleButton',
+    ) as HTMLButtonElement;
+    this.continueNoteButton = document.getElementById(
+      'continueNoteButton',
+    ) as HTMLButtonElement;
+    this.pauseButton = document.getElementById(
+      'pauseButton',
+    ) as HTMLButtonElement;
+    this.liveTranscriptDisplay = document.getElementById(
+      'liveTranscript',
+    ) as HTMLDivElement;
 
     // Sidebar elements
     this.sidebar = document.getElementById('sidebar') as HTMLElement;
+    this.uploadQueueElement = document.getElementById(
+      'uploadQueue',
+    ) as HTMLDivElement;
+    this.uploadQueueSummary = document.getElementById(
+      'uploadQueueSummary',
+    ) as HTMLSpanElement;
+    this.uploadList = document.getElementById('uploadList') as HTMLUListElement;
     this.notesList = document.getElementById('notesList') as HTMLUListElement;
     this.clearAllButton = document.getElementById(
       'clearAllButton',
@@ -116,6 +632,118 @@ class VoiceNotesApp {
     this.sidebarOverlay = document.getElementById(
       'sidebar-overlay',
     ) as HTMLDivElement;
+    this.selectionBar = document.getElementById(
+      'selectionBar',
+    ) as HTMLDivElement;
+    this.selectionCount = document.getElementById(
+      'selectionCount',
+    ) as HTMLSpanElement;
+    this.exportMenu = document.getElementById('exportMenu') as HTMLDivElement;
+    this.searchInput = document.getElementById(
+      'searchInput',
+    ) as HTMLInputElement;
+    this.dateFromInput = document.getElementById(
+      'dateFromInput',
+    ) as HTMLInputElement;
+    this.dateToInput = document.getElementById(
+      'dateToInput',
+    ) as HTMLInputElement;
+    this.sortSelect = document.getElementById(
+      'sortSelect',
+    ) as HTMLSelectElement;
+    this.searchSummary = document.getElementById(
+      'searchSummary',
+    ) as HTMLDivElement;
+    this.tagFilterSelect = document.getElementById(
+      'tagFilterSelect',
+    ) as HTMLSelectElement;
+    this.tagOptions = document.getElementById(
+      'tagOptions',
+    ) as HTMLDataListElement;
+    this.moveMenu = document.getElementById('moveMenu') as HTMLDivElement;
+    this.folderSelect = document.getElementById(
+      'folderSelect',
+    ) as HTMLSelectElement;
+    this.transcriberSelect = document.getElementById(
+      'transcriberSelect',
+    ) as HTMLSelectElement;
+    this.noteLanguage = document.getElementById(
+      'noteLanguage',
+    ) as HTMLSpanElement;
+    this.noteTagsList = document.getElementById('noteTags') as HTMLDivElement;
+    this.tagInput = document.getElementById('tagInput') as HTMLInputElement;
+    this.tagSuggestions = document.getElementById(
+      'tagSuggestions',
+    ) as HTMLDivElement;
+    this.studyDialog = document.getElementById('studyDialog') as HTMLDivElement;
+    this.studyContent = document.getElementById(
+      'studyContent',
+    ) as HTMLDivElement;
+    this.studyStatus = document.getElementById(
+      'studyStatus',
+    ) as HTMLSpanElement;
+    this.generateStudyButton = document.getElementById(
+      'generateStudyButton',
+    ) as HTMLButtonElement;
+    this.templateSelect = document.getElementById(
+      'templateSelect',
+    ) as HTMLSelectElement;
+    this.templatesDialog = document.getElementById(
+      'templatesDialog',
+    ) as HTMLDivElement;
+    this.historyDialog = document.getElementById(
+      'historyDialog',
+    ) as HTMLDivElement;
+    this.historyList = document.getElementById(
+      'historyList',
+    ) as HTMLUListElement;
+    this.historyDiff = document.getElementById('historyDiff') as HTMLDivElement;
+    this.historyFieldSelect = document.getElementById(
+      'historyFieldSelect',
+    ) as HTMLSelectElement;
+    this.historyCompareSelect = document.getElementById(
+      'historyCompareSelect',
+    ) as HTMLSelectElement;
+    this.historyStatus = document.getElementById(
+      'historyStatus',
+    ) as HTMLSpanElement;
+    this.refineBar = document.getElementById('refineBar') as HTMLDivElement;
+    this.refineInput = document.getElementById(
+      'refineInput',
+    ) as HTMLInputElement;
+    this.rewriteReview = document.getElementById(
+      'rewriteReview',
+    ) as HTMLDivElement;
+    this.rewriteDiff = document.getElementById('rewriteDiff') as HTMLDivElement;
+    this.rewriteStatus = document.getElementById(
+      'rewriteStatus',
+    ) as HTMLSpanElement;
+    this.acceptRewriteButton = document.getElementById(
+      'acceptRewriteButton',
+    ) as HTMLButtonElement;
+    this.chatDialog = document.getElementById('chatDialog') as HTMLDivElement;
+    this.chatMessages = document.getElementById(
+      'chatMessages',
+    ) as HTMLDivElement;
+    this.chatInput = document.getElementById(
+      'chatInput',
+    ) as HTMLTextAreaElement;
+    this.chatStatus = document.getElementById('chatStatus') as HTMLSpanElement;
+    this.sendChatButton = document.getElementById(
+      'sendChatButton',
+    ) as HTMLButtonElement;
+    this.templateEditorSelect = document.getElementById(
+      'templateEditorSelect',
+    ) as HTMLSelectElement;
+    this.templateNameInput = document.getElementById(
+      'templateNameInput',
+    ) as HTMLInputElement;
+    this.templateInstructionsInput = document.getElementById(
+      'templateInstructionsInput',
+    ) as HTMLTextAreaElement;
+    this.templateStatus = document.getElementById(
+      'templateStatus',
+    ) as HTMLSpanElement;
 
     if (this.liveWaveformCanvas) {
       this.liveWaveformCtx = this.liveWaveformCanvas.getContext('2d');
@@ -125,10 +753,20 @@ class VoiceNotesApp {
     ) as HTMLDivElement;
 
     this.bindEventListeners();
+    this.renderTabs();
     this.initTheme();
-    this.loadNotesFromLocalStorage();
-    this.renderSidebar();
+    this.initEditorMode();
+    this.initLiveTranscription();
+    this.initMicrophones();
+    this.initTemplates();
+    this.initFolders();
     this.createNewNote();
+    this.loadStoredNotes().catch(console.error);
+    this.uploadQueue
+      .restore()
+      .catch((error) =>
+        this.reportStorageError('Could not load the upload queue', error),
+      );
 
     this.recordingStatus.textContent = 'Ready to record';
   }
@@ -139,50 +777,582 @@ class VoiceNotesApp {
     this.uploadButton.addEventListener('click', () =>
       this.audioUploadInput.click(),
     );
+    this.stopGenerationButton.addEventListener('click', () =>
+      this.stopGeneration(),
+    );
     this.audioUploadInput.addEventListener('change', (e) =>
       this.handleFileUpload(e),
     );
+    const appContainer = document.querySelector(
+      '.app-container',
+    ) as HTMLElement;
+    appContainer.addEventListener('dragover', (e) => {
+      if (!e.dataTransfer?.types.includes('Files')) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'copy';
+      appContainer.classList.add('file-drop-active');
+    });
+    appContainer.addEventListener('dragleave', (e) => {
+      if (!appContainer.contains(e.relatedTarget as Node | null)) {
+        appContainer.classList.remove('file-drop-active');
+      }
+    });
+    appContainer.addEventListener('drop', (e) => {
+      if (!e.dataTransfer?.types.includes('Files')) return;
+      e.preventDefault();
+      appContainer.classList.remove('file-drop-active');
+      collectDroppedAudioFiles(e.dataTransfer)
+        .then((files) => this.enqueueUploads(files))
+        .catch((error) => {
+          console.error('Error reading dropped files:', error);
+          this.recordingStatus.textContent =
+            'Could not read the dropped files.';
+        });
+    });
+    document
+      .getElementById('clearUploadsButton')!
+      .addEventListener('click', () => this.uploadQueue.clearFinished());
     this.themeToggleButton.addEventListener('click', () => this.toggleTheme());
+    this.liveToggleButton.addEventListener('click', () =>
+      this.toggleLiveTranscription(),
+    );
+    this.continueNoteButton.addEventListener('click', () =>
+      this.toggleContinueNote(),
+    );
+    this.pauseButton.addEventListener('click', () => this.togglePause());
+    this.microphoneSelect.addEventListener('change', () =>
+      localStorage.setItem('microphoneId', this.microphoneSelect.value),
+    );
     window.addEventListener('resize', this.handleResize.bind(this));
     this.clearAllButton.addEventListener('click', () => this.clearAllNotes());
     this.sidebarToggleButton.addEventListener('click', () =>
       this.toggleSidebar(),
     );
     this.sidebarOverlay.addEventListener('click', () => this.toggleSidebar());
+    this.searchInput.addEventListener('input', () => {
+      if (this.searchTimeoutId !== null) clearTimeout(this.searchTimeoutId);
+      this.searchTimeoutId = window.setTimeout(() => {
+        this.searchTimeoutId = null;
+        this.renderSidebar();
+      }, SEARCH_DEBOUNCE_MS);
+    });
+    this.searchInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && this.searchInput.value) {
+        e.stopPropagation();
+        this.searchInput.value = '';
+        this.renderSidebar();
+      }
+    });
+    [
+      this.dateFromInput,
+      this.dateToInput,
+      this.tagFilterSelect,
+      this.sortSelect,
+    ].forEach((el) =>
+      el.addEventListener('change', () => this.renderSidebar()),
+    );
+    document
+      .getElementById('newFolderButton')!
+      .addEventListener('click', () => this.createFolder(null));
+    this.makeFolderDropTarget(this.notesList, null);
+    this.folderSelect.addEventListener('change', () =>
+      this.handleFolderChange(),
+    );
+    this.transcriberSelect.addEventListener('change', () =>
+      this.handleTranscriberChange(),
+    );
+    this.tagInput.addEventListener('keydown', (e) => {
+      if (e.key !== 'Enter' && e.key !== ',') return;
+      e.preventDefault();
+      this.addTagsFromInput();
+    });
+    this.tagInput.addEventListener('change', () => this.addTagsFromInput());
+    document
+      .getElementById('tagSelectedButton')!
+      .addEventListener('click', () => this.tagSelectedNotes());
+    const moveSelectedButton = document.getElementById(
+      'moveSelectedButton',
+    ) as HTMLButtonElement;
+    moveSelectedButton.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.showMoveMenu(moveSelectedButton, Array.from(this.selectedNoteIds));
+    });
+    const exportNoteButton = document.getElementById(
+      'exportNoteButton',
+    ) as HTMLButtonElement;
+    exportNoteButton.addEventListener('click', (e) => {
+      e.stopPropagation();
+      if (this.currentNote) {
+        this.showExportMenu(exportNoteButton, [this.currentNote]);
+      }
+    });
+    const exportAllButton = document.getElementById(
+      'exportAllButton',
+    ) as HTMLButtonElement;
+    exportAllButton.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.showExportMenu(exportAllButton, this.notes);
+    });
+    const exportSelectedButton = document.getElementById(
+      'exportSelectedButton',
+    ) as HTMLButtonElement;
+    exportSelectedButton.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.showExportMenu(exportSelectedButton, this.getSelectedNotes());
+    });
+    document
+      .getElementById('clearSelectionButton')!
+      .addEventListener('click', () => this.clearSelection());
+    const backupImportInput = document.getElementById(
+      'backupImport',
+    ) as HTMLInputElement;
+    document
+      .getElementById('importButton')!
+      .addEventListener('click', () => backupImportInput.click());
+    backupImportInput.addEventListener('change', () => {
+      const file = backupImportInput.files?.[0];
+      backupImportInput.value = '';
+      if (file) this.importBackup(file).catch(console.error);
+    });
+    document.addEventListener('click', (e) => {
+      if (!this.exportMenu.contains(e.target as Node)) this.hideExportMenu();
+      if (!this.moveMenu.contains(e.target as Node)) this.hideMoveMenu();
+    });
+    document.addEventListener('keydown', (e) => {
+      if (e.key !== 'Escape') return;
+      this.hideExportMenu();
+      this.hideMoveMenu();
+      document
+        .querySelectorAll<HTMLElement>('.modal:not(.hidden)')
+        .forEach((modal) => this.closeModal(modal));
+    });
+    document.querySelectorAll<HTMLElement>('.modal').forEach((modal) => {
+      modal.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        if (target === modal || target.closest('[data-close-modal]')) {
+          this.closeModal(modal);
+        }
+      });
+    });
+    document
+      .getElementById('studyButton')!
+      .addEventListener('click', () => this.openStudyDialog());
+    this.generateStudyButton.addEventListener('click', () => {
+      if (this.studyController) this.studyController.abort();
+      else this.generateStudyMaterial().catch(console.error);
+    });
+    document
+      .getElementById('addCardButton')!
+      .addEventListener('click', () => this.addStudyCard());
+    document
+      .getElementById('exportAnkiButton')!
+      .addEventListener('click', () => this.exportStudyToAnki());
+    this.templateSelect.addEventListener('change', () =>
+      this.handleTemplateChange(),
+    );
+    document
+      .getElementById('manageTemplatesButton')!
+      .addEventListener('click', () => this.openTemplatesDialog());
+    document
+      .getElementById('settingsButton')!
+      .addEventListener('click', () => this.openSettingsDialog());
+    this.temperatureInput.addEventListener('input', () => {
+      this.temperatureValue.textContent = this.temperatureInput.value;
+    });
+    document
+      .getElementById('saveSettingsButton')!
+      .addEventListener('click', () =>
+        this.saveSettingsFromDialog().catch(console.error),
+      );
+    this.regenerateViewButton.addEventListener('click', () => {
+      if (this.currentNote && isNoteViewId(this.activeTab)) {
+        this.generateView(this.currentNote, this.activeTab).catch(
+          console.error,
+        );
+      }
+    });
+    this.translationLanguageSelect.addEventListener('change', () => {
+      this.translationLanguage = this.translationLanguageSelect.value;
+      localStorage.setItem('translationLanguage', this.translationLanguage);
+      this.renderTranslationView();
+    });
+    this.translateButton.addEventListener('click', () => {
+      if (this.currentNote) {
+        this.translateNote(this.currentNote, this.translationLanguage).catch(
+          console.error,
+        );
+      }
+    });
+    this.syncScroll(this.translationOriginal, this.translationContent);
+    this.syncScroll(this.translationContent, this.translationOriginal);
+    document
+      .getElementById('glossaryButton')!
+      .addEventListener('click', () => this.openGlossaryDialog());
+    document
+      .getElementById('saveGlossaryButton')!
+      .addEventListener('click', () => this.saveGlossaryFromDialog());
+    const glossaryImportInput = document.getElementById(
+      'glossaryImport',
+    ) as HTMLInputElement;
+    document
+      .getElementById('importGlossaryButton')!
+      .addEventListener('click', () => glossaryImportInput.click());
+    glossaryImportInput.addEventListener('change', () => {
+      const file = glossaryImportInput.files?.[0];
+      glossaryImportInput.value = '';
+      if (file) this.importGlossaryCsv(file).catch(console.error);
+    });
+    this.templateEditorSelect.addEventListener('change', () =>
+      this.loadTemplateIntoEditor(this.templateEditorSelect.value),
+    );
+    document
+      .getElementById('newTemplateButton')!
+      .addEventListener('click', () => this.createTemplate());
+    document
+      .getElementById('duplicateTemplateButton')!
+      .addEventListener('click', () => this.duplicateTemplate());
+    document
+      .getElementById('deleteTemplateButton')!
+      .addEventListener('click', () => this.deleteTemplate());
+    document
+      .getElementById('saveTemplateButton')!
+      .addEventListener('click', () => this.saveTemplateFromEditor());
+    this.audioPlayer.addEventListener('timeupdate', () =>
+      this.highlightActiveSegment(),
+    );
+    this.audioPlayer.addEventListener('ended', () => this.playNextAudioPart());
+    this.editorTitle.addEventListener('input', () =>
+      this.scheduleAutosave('title'),
+    );
+    this.polishedSource.addEventListener('input', () =>
+      this.handlePolishedSourceInput(),
+    );
+    this.polishedSource.addEventListener('keydown', (e) =>
+      this.handlePolishedSourceKeydown(e),
+    );
+    document
+      .getElementById('repolishButton')!
+      .addEventListener('click', () => this.handleRepolish());
+    document
+      .getElementById('refineToggleButton')!
+      .addEventListener('click', () => this.toggleRefineBar());
+    this.refineInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        this.refineCurrentNote().catch(console.error);
+      } else if (e.key === 'Escape') {
+        this.toggleRefineBar(false);
+      }
+    });
+    document
+      .getElementById('refineNoteButton')!
+      .addEventListener('click', () =>
+        this.refineCurrentNote().catch(console.error),
+      );
+    const rewriteSelectionButton = document.getElementById(
+      'rewriteSelectionButton',
+    ) as HTMLButtonElement;
+    // Keep the editor's selection while the button takes focus.
+    rewriteSelectionButton.addEventListener('mousedown', (e) =>
+      e.preventDefault(),
+    );
+    rewriteSelectionButton.addEventListener('click', () =>
+      this.rewriteSelection().catch(console.error),
+    );
+    this.acceptRewriteButton.addEventListener('click', () =>
+      this.acceptRewrite(),
+    );
+    document
+      .getElementById('rejectRewriteButton')!
+      .addEventListener('click', () => this.discardRewrite());
+    this.polishedNote.addEventListener('dblclick', () => {
+      if (this.editorMode !== 'preview') return;
+      this.setEditorMode('source');
+      this.polishedSource.focus();
+    });
+    this.polishedPane
+      .querySelectorAll<HTMLButtonElement>('[data-editor-mode]')
+      .forEach((button) =>
+        button.addEventListener('click', () =>
+          this.setEditorMode(button.dataset.editorMode as EditorMode),
+        ),
+      );
+    this.polishedPane
+      .querySelectorAll<HTMLButtonElement>('[data-format]')
+      .forEach((button) => {
+        // Keep the selection in the editor while clicking the toolbar.
+        button.addEventListener('mousedown', (e) => e.preventDefault());
+        button.addEventListener('click', () =>
+          this.applyFormat(button.dataset.format as MarkdownFormat),
+        );
+      });
+    this.rawTranscription.addEventListener('input', () =>
+      this.scheduleAutosave('raw'),
+    );
+    window.addEventListener('beforeunload', () => this.flushAutosave());
+    window.addEventListener('online', () => {
+      this.processPendingNotes().catch(console.error);
+    });
+    document.addEventListener('visibilitychange', () => {
+      if (document.hidden) this.flushAutosave();
+    });
+    document
+      .getElementById('historyButton')!
+      .addEventListener('click', () => this.openHistoryDialog());
+    document
+      .getElementById('askNotesButton')!
+      .addEventListener('click', () => this.openChatDialog());
+    this.sendChatButton.addEventListener('click', () => {
+      if (this.chatController) this.chatController.abort();
+      else this.askNotes().catch(console.error);
+    });
+    this.chatInput.addEventListener('keydown', (e) => {
+      if (e.key !== 'Enter' || e.shiftKey || this.chatController) return;
+      e.preventDefault();
+      this.askNotes().catch(console.error);
+    });
+    document
+      .getElementById('newChatButton')!
+      .addEventListener('click', () => this.clearChat());
+    this.historyFieldSelect.addEventListener('change', () =>
+      this.renderRevisionDiff(),
+    );
+    this.historyCompareSelect.addEventListener('change', () =>
+      this.renderRevisionDiff(),
+    );
+    document
+      .getElementById('restoreRevisionButton')!
+      .addEventListener('click', () => this.restoreSelectedRevision());
   }
 
   private toggleSidebar(): void {
     document.body.classList.toggle('sidebar-open');
   }
 
-  private async handleFileUpload(event: Event): Promise<void> {
+  private handleFileUpload(event: Event): void {
     const input = event.target as HTMLInputElement;
-    if (!input.files || input.files.length === 0) {
+    const files = Array.from(input.files ?? []);
+    input.value = '';
+    this.enqueueUploads(files);
+  }
+
+  private enqueueUploads(files: File[]): void {
+    if (files.length === 0) {
+      this.recordingStatus.textContent = 'No audio files to upload.';
       return;
     }
-
-    const file = input.files[0];
-    const maxSizeInMB = 50;
-    if (file.size > maxSizeInMB * 1024 * 1024) {
-      this.recordingStatus.textContent = `File is too large (max ${maxSizeInMB}MB).`;
-      input.value = '';
+    if (this.isContinuingNote()) {
+      this.appendUploads(files).catch(console.error);
       return;
     }
+    this.uploadQueue.add(files, this.defaultTemplateId);
+    this.recordingStatus.textContent =
+      files.length === 1
+        ? `Added "${files[0].name}" to the upload queue.`
+        : `Added ${files.length} files to the upload queue.`;
+  }
+
+  /**
+   * Turns one queued upload into a new note in the background: transcribes
+   * it (unless an earlier attempt already did), polishes the transcript with
+   * the template chosen when it was queued, and saves the note with its
+   * audio.
+   */
+  private async processUpload(
+    job: UploadJob,
+    signal: AbortSignal,
+    update: (changes: Partial<UploadJob>) => void,
+  ): Promise<void> {
+    const audio = job.audio;
+    if (!audio) throw new Error('The uploaded file is no longer available.');
+    let transcript = job.transcript;
+    if (!transcript) {
+      update({status: 'transcribing'});
+      const transcribed = await this.transcribeAudio(
+        this.getTranscriber(),
+        audio,
+        signal,
+        () => {},
+        (progress) => update({progress}),
+      );
+      transcript = transcribed.transcript;
+      if (!transcript.text) throw new GeminiError('empty');
+      update({transcript, audioProcessing: transcribed.stats});
+    }
+    const {transcript: corrected, corrected: correctedTerms} =
+      correctTranscript(transcript, this.glossary);
 
-    this.createNewNote();
-    this.recordingStatus.textContent = `Processing "${file.name}"...`;
+    update({status: 'polishing', progress: undefined});
+    const {polishedText, template} = await this.polishInBackground(
+      corrected.text,
+      job.templateId,
+      signal,
+      (progress) => update({progress}),
+    );
 
+    const note: Note = {
+      // Several uploads can finish in the same millisecond.
+      id: `note_${crypto.randomUUID()}`,
+      title:
+        deriveNoteTitle(polishedText) || job.fileName.replace(/\.[^.]+$/, ''),
+      rawTranscription: corrected.text,
+      segments: corrected.segments ?? undefined,
+      language: corrected.language,
+      polishedNote: polishedText,
+      polishTemplateId: template.id,
+      polishTemplateName: template.name,
+      audioProcessing: job.audioProcessing,
+      timestamp: Date.now(),
+    };
+    this.addGlossaryCorrections(note, correctedTerms);
     try {
-      await this.processAudio(file);
+      await saveAudio(note.id, audio);
+      note.hasAudio = true;
     } catch (error) {
-      console.error('Error processing uploaded file:', error);
-      this.recordingStatus.textContent = 'Error processing uploaded file.';
-    } finally {
-      input.value = '';
+      console.warn('Could not store note audio:', error);
+    }
+    if (signal.aborted) {
+      if (note.hasAudio) {
+        deleteAudio(note.id).catch((error) =>
+          console.warn('Could not delete note audio:', error),
+        );
+      }
+      return;
+    }
+    this.notes.unshift(note);
+    this.persistNote(note);
+    this.recordRevision(note, 'model', `Polished (${template.name})`);
+    this.renderSidebar();
+    update({
+      status: 'done',
+      noteId: note.id,
+      audio: undefined,
+      transcript: undefined,
+      progress: undefined,
+    });
+    this.suggestTags(note).catch((error) =>
+      console.warn('Could not suggest tags:', error),
+    );
+  }
+
+  /**
+   * Polishes a transcript without touching the editor, for notes processed
+   * in the background. Falls back to the first built-in template if the
+   * chosen one has since been deleted.
+   */
+  private async polishInBackground(
+    transcriptText: string,
+    templateId: string,
+    signal: AbortSignal,
+    onProgress: (progress: string) => void,
+  ): Promise<{polishedText: string; template: PolishTemplate}> {
+    const template = this.findTemplate(templateId) ?? BUILT_IN_TEMPLATES[0];
+    const prompt = buildPolishPrompt(
+      template,
+      transcriptText,
+      this.glossary,
+      this.settings.polishLanguage,
+    );
+    const polishedText = await withRetry(
+      () =>
+        streamGeneratedText(
+          this.genAI,
+          {
+            model: this.settings.polishingModel,
+            contents: [{text: prompt}],
+            config: {temperature: this.settings.temperature},
+          },
+          signal,
+        ),
+      signal,
+      (error, delayMs) => onProgress(describeRetry(error, delayMs)),
+    );
+    if (!polishedText) throw new GeminiError('empty');
+    return {polishedText, template};
+  }
+
+  private renderUploadQueue(): void {
+    const jobs = this.uploadQueue.getJobs();
+    this.uploadQueueElement.classList.toggle('hidden', jobs.length === 0);
+    const active = jobs.filter(
+      (job) => job.status !== 'done' && job.status !== 'failed',
+    ).length;
+    this.uploadQueueSummary.textContent = active
+      ? `Uploads (${active} in progress)`
+      : 'Uploads';
+    this.uploadList.innerHTML = '';
+    jobs.forEach((job) =>
+      this.uploadList.appendChild(this.createUploadItem(job)),
+    );
+  }
+
+  private createUploadItem(job: UploadJob): HTMLLIElement {
+    const item = document.createElement('li');
+    item.className = `upload-item ${job.status}`;
+
+    const icon = document.createElement('i');
+    icon.className = {
+      queued: 'fas fa-clock',
+      transcribing: 'fas fa-spinner fa-spin',
+      polishing: 'fas fa-spinner fa-spin',
+      done: 'fas fa-check',
+      failed: 'fas fa-triangle-exclamation',
+    }[job.status];
+    item.appendChild(icon);
+
+    const info = document.createElement('div');
+    info.className = 'upload-item-info';
+    const name = document.createElement('div');
+    name.className = 'upload-item-name';
+    name.textContent = job.fileName;
+    const status = document.createElement('div');
+    status.className = 'upload-item-status';
+    status.textContent = [
+      UPLOAD_STATUS_LABELS[job.status],
+      job.progress ?? job.error,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+    if (job.error) status.title = job.error;
+    info.append(name, status);
+    item.appendChild(info);
+
+    const actions = document.createElement('div');
+    actions.className = 'upload-item-actions';
+    const addAction = (iconClass: string, title: string, run: () => void) => {
+      const button = document.createElement('button');
+      button.className = 'upload-action-btn';
+      button.title = title;
+      button.innerHTML = `<i class="fas ${iconClass}"></i>`;
+      button.addEventListener('click', (e) => {
+        e.stopPropagation();
+        run();
+      });
+      actions.appendChild(button);
+    };
+    if (job.status === 'failed') {
+      addAction('fa-rotate-right', 'Retry', () =>
+        this.uploadQueue.retry(job.id),
+      );
+    }
+    addAction(
+      'fa-times',
+      job.status === 'done' || job.status === 'failed' ? 'Remove' : 'Cancel',
+      () => this.uploadQueue.cancel(job.id),
+    );
+    item.appendChild(actions);
+
+    if (job.status === 'done' && job.noteId) {
+      const noteId = job.noteId;
+      item.classList.add('openable');
+      item.title = 'Open note';
+      item.addEventListener('click', () => this.displayNoteById(noteId));
     }
+    return item;
   }
 
   private handleResize(): void {
+    requestAnimationFrame(() => this.positionTabIndicator(true));
     if (
       this.isRecording &&
       this.liveWaveformCanvas &&
@@ -226,98 +1396,685 @@ class VoiceNotesApp {
     }
   }
 
-  private async toggleRecording(): Promise<void> {
-    if (!this.isRecording) {
-      await this.startRecording();
-    } else {
-      await this.stopRecording();
-    }
+  private initLiveTranscription(): void {
+    this.liveTranscriptionEnabled =
+      localStorage.getItem('liveTranscription') === 'on';
+    this.updateLiveToggleButton();
   }
 
-  private setupAudioVisualizer(): void {
-    if (!this.stream || this.audioContext) return;
+  private toggleLiveTranscription(): void {
+    this.liveTranscriptionEnabled = !this.liveTranscriptionEnabled;
+    localStorage.setItem(
+      'liveTranscription',
+      this.liveTranscriptionEnabled ? 'on' : 'off',
+    );
+    this.updateLiveToggleButton();
+  }
 
-    this.audioContext = new (window.AudioContext ||
-      (window as any).webkitAudioContext)();
-    const source = this.audioContext.createMediaStreamSource(this.stream);
-    this.analyserNode = this.audioContext.createAnalyser();
-    this.analyserNode.fftSize = 256;
-    this.analyserNode.smoothingTimeConstant = 0.75;
-    this.waveformDataArray = new Uint8Array(
-      this.analyserNode.frequencyBinCount,
+  private updateLiveToggleButton(): void {
+    this.liveToggleButton.classList.toggle(
+      'active',
+      this.liveTranscriptionEnabled,
     );
-    source.connect(this.analyserNode);
+    this.liveToggleButton.setAttribute(
+      'aria-pressed',
+      String(this.liveTranscriptionEnabled),
+    );
+    this.liveToggleButton.title = this.liveTranscriptionEnabled
+      ? 'Live transcription: on'
+      : 'Live transcription: off';
   }
 
-  private drawLiveWaveform(): void {
-    if (
-      !this.analyserNode ||
-      !this.waveformDataArray ||
-      !this.liveWaveformCtx ||
-      !this.liveWaveformCanvas ||
-      !this.isRecording
-    ) {
-      if (this.waveformDrawingId) cancelAnimationFrame(this.waveformDrawingId);
-      this.waveformDrawingId = null;
+  private initMicrophones(): void {
+    if (!navigator.mediaDevices?.enumerateDevices) {
+      this.microphoneSelect.parentElement?.classList.add('hidden');
       return;
     }
+    navigator.mediaDevices.addEventListener('devicechange', () =>
+      this.renderMicrophoneOptions().catch(console.warn),
+    );
+    this.renderMicrophoneOptions().catch(console.warn);
+  }
 
-    this.waveformDrawingId = requestAnimationFrame(() =>
-      this.drawLiveWaveform(),
+  /**
+   * Lists the audio inputs. Browsers only reveal device names once the user
+   * has allowed microphone access, so this runs again after recording starts.
+   */
+  private async renderMicrophoneOptions(): Promise<void> {
+    const devices = (await navigator.mediaDevices.enumerateDevices()).filter(
+      (device) => device.kind === 'audioinput' && device.deviceId !== 'default',
     );
-    this.analyserNode.getByteFrequencyData(this.waveformDataArray);
+    const savedId = localStorage.getItem('microphoneId') || '';
+    this.microphoneSelect.innerHTML = '';
+    this.microphoneSelect.appendChild(new Option('Default microphone', ''));
+    devices.forEach((device, index) =>
+      this.microphoneSelect.appendChild(
+        new Option(device.label || `Microphone ${index + 1}`, device.deviceId),
+      ),
+    );
+    // Keep the saved choice even while its device is unplugged.
+    this.microphoneSelect.value = devices.some((d) => d.deviceId === savedId)
+      ? savedId
+      : '';
+  }
 
-    const ctx = this.liveWaveformCtx;
-    const canvas = this.liveWaveformCanvas;
-    const logicalWidth = canvas.clientWidth;
-    const logicalHeight = canvas.clientHeight;
-    ctx.clearRect(0, 0, logicalWidth, logicalHeight);
-    const bufferLength = this.analyserNode.frequencyBinCount;
-    const numBars = Math.floor(bufferLength * 0.5);
-    if (numBars === 0) return;
-    const totalBarPlusSpacingWidth = logicalWidth / numBars;
-    const barWidth = Math.max(1, Math.floor(totalBarPlusSpacingWidth * 0.7));
-    const barSpacing = Math.max(0, Math.floor(totalBarPlusSpacingWidth * 0.3));
-    let x = 0;
-    const recordingColor =
-      getComputedStyle(document.documentElement)
-        .getPropertyValue('--color-recording')
-        .trim() || '#ff3b30';
-    ctx.fillStyle = recordingColor;
+  private toggleContinueNote(): void {
+    this.continueNoteEnabled = !this.continueNoteEnabled;
+    this.continueNoteButton.classList.toggle(
+      'active',
+      this.continueNoteEnabled,
+    );
+    this.continueNoteButton.setAttribute(
+      'aria-pressed',
+      String(this.continueNoteEnabled),
+    );
+    this.continueNoteButton.title = this.continueNoteEnabled
+      ? 'Continue this note: on'
+      : 'Continue this note: off';
+    this.recordingStatus.textContent = this.continueNoteEnabled
+      ? 'New recordings and uploads will be added to this note.'
+      : 'New recordings will start a new transcription.';
+  }
 
-    for (let i = 0; i < numBars; i++) {
-      if (x >= logicalWidth) break;
-      const dataIndex = Math.floor(i * (bufferLength / numBars));
-      const barHeightNormalized = this.waveformDataArray[dataIndex] / 255.0;
-      let barHeight = barHeightNormalized * logicalHeight;
-      if (barHeight < 1 && barHeight > 0) barHeight = 1;
-      barHeight = Math.round(barHeight);
-      const y = Math.round((logicalHeight - barHeight) / 2);
-      ctx.fillRect(Math.floor(x), y, barWidth, barHeight);
-      x += barWidth + barSpacing;
+  /**
+   * Whether a new recording or upload should be added to the current note
+   * rather than replace its transcript (or, for uploads, make a new note).
+   */
+  private isContinuingNote(): boolean {
+    return (
+      this.continueNoteEnabled &&
+      !!this.currentNote &&
+      !!this.getRawTranscriptText()
+    );
+  }
+
+  private initTemplates(): void {
+    this.userTemplates = loadUserTemplates();
+    this.defaultTemplateId = loadDefaultTemplateId();
+    if (!this.findTemplate(this.defaultTemplateId)) {
+      this.defaultTemplateId = BUILT_IN_TEMPLATES[0].id;
     }
+    this.renderTemplateOptions();
   }
 
-  private updateLiveTimer(): void {
-    if (!this.isRecording || !this.liveRecordingTimerDisplay) return;
-    const elapsedMs = Date.now() - this.recordingStartTime;
-    const totalSeconds = Math.floor(elapsedMs / 1000);
-    const minutes = Math.floor(totalSeconds / 60);
-    const seconds = totalSeconds % 60;
-    const hundredths = Math.floor((elapsedMs % 1000) / 10);
-    this.liveRecordingTimerDisplay.textContent = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(hundredths).padStart(2, '0')}`;
+  private getTemplates(): PolishTemplate[] {
+    return [...BUILT_IN_TEMPLATES, ...this.userTemplates];
   }
 
-  private startLiveDisplay(): void {
+  private findTemplate(id: string | undefined): PolishTemplate | undefined {
+    return this.getTemplates().find((template) => template.id === id);
+  }
+
+  private fillTemplateOptions(select: HTMLSelectElement): void {
+    select.innerHTML = '';
+    const groups: Array<[string, PolishTemplate[]]> = [
+      ['Built-in', BUILT_IN_TEMPLATES],
+      ['My templates', this.userTemplates],
+    ];
+    groups.forEach(([label, templates]) => {
+      if (templates.length === 0) return;
+      const group = document.createElement('optgroup');
+      group.label = label;
+      templates.forEach((template) => {
+        const option = document.createElement('option');
+        option.value = template.id;
+        option.textContent = template.name;
+        group.appendChild(option);
+      });
+      select.appendChild(group);
+    });
+  }
+
+  /**
+   * The picker shows the template that produced the current note, or the
+   * default for new recordings when the note has not been polished yet.
+   */
+  private renderTemplateOptions(): void {
+    this.fillTemplateOptions(this.templateSelect);
+    const noteTemplateId = this.currentNote?.polishTemplateId;
+    this.templateSelect.value = this.findTemplate(noteTemplateId)
+      ? noteTemplateId!
+      : this.defaultTemplateId;
+    const usedName = this.currentNote?.polishTemplateName;
+    this.templateSelect.title = usedName
+      ? `Polished with: ${usedName}`
+      : 'Polishing template';
+  }
+
+  private handleTemplateChange(): void {
+    this.defaultTemplateId = this.templateSelect.value;
+    saveDefaultTemplateId(this.defaultTemplateId);
+    const note = this.currentNote;
+    const template = this.findTemplate(this.defaultTemplateId);
     if (
-      !this.recordingInterface ||
-      !this.liveRecordingTitle ||
-      !this.liveWaveformCanvas ||
-      !this.liveRecordingTimerDisplay
-    )
-      return;
-    this.recordingInterface.classList.add('is-live');
-    this.setupCanvasDimensions();
+      note &&
+      template &&
+      this.getRawTranscriptText() &&
+      note.polishTemplateId !== template.id &&
+      !this.generationController &&
+      confirm(`Re-polish this note with the "${template.name}" template?`)
+    ) {
+      this.repolishCurrentNote().catch(console.error);
+    }
+  }
+
+  private async repolishCurrentNote(): Promise<void> {
+    const note = this.currentNote;
+    if (!note) return;
+    const signal = this.beginGeneration();
+    try {
+      await this.getPolishedNote(note, signal);
+    } finally {
+      this.endGeneration(signal);
+    }
+  }
+
+  /**
+   * Polishes the note again from the raw transcription as it is now, e.g.
+   * after correcting misheard terms in the Raw tab.
+   */
+  private handleRepolish(): void {
+    this.flushAutosave();
+    const note = this.currentNote;
+    if (!note || !this.getRawTranscriptText()) {
+      this.recordingStatus.textContent = 'No transcription to polish';
+      return;
+    }
+    if (
+      note.polishedNote.trim() &&
+      !confirm(
+        'Replace the polished note with a new version from the raw transcription? The current version stays in the revision history.',
+      )
+    ) {
+      return;
+    }
+    this.discardRewrite();
+    this.repolishCurrentNote().catch(console.error);
+  }
+
+  private toggleRefineBar(
+    show = this.refineBar.classList.contains('hidden'),
+  ): void {
+    this.refineBar.classList.toggle('hidden', !show);
+    if (show) this.refineInput.focus();
+  }
+
+  /** Applies the refinement instruction to the whole polished note. */
+  private async refineCurrentNote(): Promise<void> {
+    const instruction = this.refineInput.value.trim();
+    if (!instruction) {
+      this.refineInput.focus();
+      return;
+    }
+    this.flushAutosave();
+    const note = this.currentNote;
+    if (!note || !note.polishedNote.trim()) {
+      this.recordingStatus.textContent = 'No polished note to refine.';
+      return;
+    }
+    this.discardRewrite();
+    const signal = this.beginGeneration();
+    // The user may open another note while this runs.
+    const showPartial = throttleToAnimationFrame((text: string) => {
+      if (signal.aborted || this.currentNote !== note) return;
+      this.renderPolishedMarkdown(text);
+    });
+    try {
+      this.recordingStatus.textContent = 'Refining note...';
+      const refined = await streamGeneratedText(
+        this.genAI,
+        {
+          model: this.settings.polishingModel,
+          contents: [{text: buildRefinePrompt(note.polishedNote, instruction)}],
+          config: {temperature: this.settings.temperature},
+        },
+        signal,
+        showPartial,
+      );
+      showPartial.cancel();
+      const markdown = stripMarkdownFence(refined).trim();
+      if (!markdown) {
+        if (this.currentNote === note) this.renderPolishedNote(note);
+        this.recordingStatus.textContent =
+          'Refinement failed or returned empty.';
+        return;
+      }
+      note.polishedNote = markdown;
+      if (this.currentNote === note) {
+        this.renderPolishedNote(note);
+        this.saveOrUpdateCurrentNote();
+      } else {
+        this.persistNote(note);
+      }
+      this.recordRevision(note, 'model', `Refined: ${instruction}`);
+      this.refineInput.value = '';
+      this.recordingStatus.textContent = 'Note refined.';
+    } catch (error) {
+      showPartial.cancel();
+      if (signal.aborted) {
+        this.handleGenerationStopped();
+        return;
+      }
+      console.error('Error refining note:', error);
+      if (this.currentNote === note) this.renderPolishedNote(note);
+      this.recordingStatus.textContent =
+        'Error refining note. Please try again.';
+    } finally {
+      this.endGeneration(signal);
+    }
+  }
+
+  /**
+   * Asks Gemini to rewrite the passage selected in the Markdown editor and
+   * shows the result as a diff to accept or reject. The refinement box, if
+   * filled in, says how to rewrite it.
+   */
+  private async rewriteSelection(): Promise<void> {
+    const source = this.polishedSource;
+    const start = source.selectionStart;
+    const original = source.value.slice(start, source.selectionEnd);
+    if (this.editorMode === 'preview' || !original.trim()) {
+      if (this.editorMode === 'preview') this.setEditorMode('split');
+      source.focus();
+      this.recordingStatus.textContent =
+        'Select the passage to rewrite in the Markdown editor.';
+      return;
+    }
+    const note = this.currentNote;
+    if (!note) return;
+    const instruction = this.refineInput.value.trim();
+    const noteMarkdown = source.value;
+    this.discardRewrite();
+    const signal = this.beginGeneration();
+    // Edits made while waiting would shift the passage, and are not
+    // autosaved during generation.
+    source.readOnly = true;
+    const showPartial = throttleToAnimationFrame((text: string) => {
+      if (signal.aborted) return;
+      this.renderDiffLines(
+        this.rewriteDiff,
+        diffLines(original, fitReplacement(original, text)),
+      );
+    });
+    this.rewriteDiff.innerHTML = '';
+    this.rewriteStatus.textContent = 'Rewriting selection...';
+    this.acceptRewriteButton.disabled = true;
+    this.rewriteReview.classList.remove('hidden');
+    try {
+      const rewritten = await streamGeneratedText(
+        this.genAI,
+        {
+          model: this.settings.polishingModel,
+          contents: [
+            {text: buildRewritePrompt(noteMarkdown, original, instruction)},
+          ],
+          config: {temperature: this.settings.temperature},
+        },
+        signal,
+        showPartial,
+      );
+      showPartial.cancel();
+      if (!stripMarkdownFence(rewritten).trim()) {
+        this.discardRewrite();
+        this.recordingStatus.textContent = 'Rewrite failed or returned empty.';
+        return;
+      }
+      const replacement = fitReplacement(original, rewritten);
+      this.pendingRewrite = {noteId: note.id, start, original, replacement};
+      this.renderDiffLines(this.rewriteDiff, diffLines(original, replacement));
+      this.rewriteStatus.textContent = 'Suggested rewrite';
+      this.acceptRewriteButton.disabled = false;
+    } catch (error) {
+      showPartial.cancel();
+      this.discardRewrite();
+      if (signal.aborted) {
+        this.recordingStatus.textContent = 'Generation stopped.';
+        return;
+      }
+      console.error('Error rewriting passage:', error);
+      this.recordingStatus.textContent =
+        'Error rewriting passage. Please try again.';
+    } finally {
+      source.readOnly = false;
+      this.endGeneration(signal);
+    }
+  }
+
+  private acceptRewrite(): void {
+    const rewrite = this.pendingRewrite;
+    const note = this.currentNote;
+    if (!rewrite || !note || rewrite.noteId !== note.id) return;
+    this.flushAutosave();
+    const markdown = note.polishedNote;
+    const {original, replacement} = rewrite;
+    // Fall back to searching for the passage if text before it changed.
+    const start =
+      markdown.slice(rewrite.start, rewrite.start + original.length) ===
+      original
+        ? rewrite.start
+        : markdown.indexOf(original);
+    if (start === -1) {
+      this.rewriteStatus.textContent =
+        'The passage was edited in the meantime. Select it again to rewrite it.';
+      return;
+    }
+    note.polishedNote =
+      markdown.slice(0, start) +
+      replacement +
+      markdown.slice(start + original.length);
+    this.discardRewrite();
+    this.renderPolishedNote(note);
+    this.polishedSource.setSelectionRange(start, start + replacement.length);
+    this.saveOrUpdateCurrentNote();
+    this.recordRevision(note, 'model', 'Rewrote passage');
+    this.recordingStatus.textContent = 'Rewrite applied.';
+  }
+
+  private discardRewrite(): void {
+    this.pendingRewrite = null;
+    this.rewriteReview.classList.add('hidden');
+    this.rewriteDiff.innerHTML = '';
+  }
+
+  private openSettingsDialog(): void {
+    const fillModels = (select: HTMLSelectElement, value: string) => {
+      select.innerHTML = '';
+      MODEL_OPTIONS.forEach(({id, label}) =>
+        select.appendChild(new Option(label, id)),
+      );
+      // Keep a model that is no longer in the list selectable.
+      if (!MODEL_OPTIONS.some(({id}) => id === value)) {
+        select.appendChild(new Option(value, value));
+      }
+      select.value = value;
+    };
+    fillModels(this.transcriptionModelSelect, this.settings.transcriptionModel);
+    fillModels(this.polishingModelSelect, this.settings.polishingModel);
+    this.transcriptLanguageSelect.innerHTML = '';
+    this.transcriptLanguageSelect.appendChild(
+      new Option('Detect automatically', ''),
+    );
+    TRANSCRIPT_LANGUAGES.forEach(({name}) =>
+      this.transcriptLanguageSelect.appendChild(new Option(name, name)),
+    );
+    this.transcriptLanguageSelect.value = this.settings.transcriptLanguage;
+    this.polishLanguageSelect.innerHTML = '';
+    this.polishLanguageSelect.appendChild(
+      new Option('Same as the recording', ''),
+    );
+    TRANSCRIPT_LANGUAGES.forEach(({name}) =>
+      this.polishLanguageSelect.appendChild(new Option(name, name)),
+    );
+    this.polishLanguageSelect.value = this.settings.polishLanguage;
+    this.defaultTranscriberSelect.innerHTML = '';
+    Object.entries(TRANSCRIBER_LABELS).forEach(([id, label]) =>
+      this.defaultTranscriberSelect.appendChild(new Option(label, id)),
+    );
+    this.defaultTranscriberSelect.value = this.settings.transcriber;
+    this.whisperUrlInput.value = this.settings.whisperUrl;
+    this.whisperModelInput.value = this.settings.whisperModel;
+    this.whisperApiKeyInput.value = this.settings.whisperApiKey;
+    this.apiKeyInput.value = this.settings.apiKey;
+    this.temperatureInput.value = String(this.settings.temperature);
+    this.temperatureValue.textContent = String(this.settings.temperature);
+    this.settingsStatus.textContent = '';
+    this.openModal(this.settingsDialog);
+  }
+
+  /** Checks the key with a test call, then saves and applies the settings. */
+  private async saveSettingsFromDialog(): Promise<void> {
+    const settings: AppSettings = {
+      apiKey: this.apiKeyInput.value.trim(),
+      transcriptionModel: this.transcriptionModelSelect.value,
+      polishingModel: this.polishingModelSelect.value,
+      temperature: Number(this.temperatureInput.value),
+      transcriptLanguage: this.transcriptLanguageSelect.value,
+      polishLanguage: this.polishLanguageSelect.value,
+      transcriber: isTranscriberId(this.defaultTranscriberSelect.value)
+        ? this.defaultTranscriberSelect.value
+        : this.settings.transcriber,
+      whisperUrl: this.whisperUrlInput.value.trim(),
+      whisperModel: this.whisperModelInput.value.trim() || 'whisper-1',
+      whisperApiKey: this.whisperApiKeyInput.value.trim(),
+    };
+    if (!effectiveApiKey(settings)) {
+      this.settingsStatus.textContent = 'Enter a Gemini API key.';
+      this.apiKeyInput.focus();
+      return;
+    }
+    if (settings.transcriber === 'whisper' && !settings.whisperUrl) {
+      this.settingsStatus.textContent = 'Enter the Whisper server URL.';
+      this.whisperUrlInput.focus();
+      return;
+    }
+    this.settingsStatus.textContent = 'Checking the API key...';
+    try {
+      await validateSettings(settings);
+    } catch (error) {
+      console.warn('Settings check failed:', error);
+      this.settingsStatus.textContent = `Not saved: ${
+        (error as Error).message
+      }`;
+      return;
+    }
+    saveSettings(settings);
+    this.settings = settings;
+    this.genAI = createGenAI(settings);
+    this.renderTranscriberOptions();
+    this.settingsStatus.textContent = 'Settings saved.';
+    // Retry the work that needs the API, in case it failed for lack of a key.
+    this.notes.forEach((note) => this.scheduleEmbedding(note.id));
+    this.processPendingNotes().catch(console.error);
+  }
+
+  private openGlossaryDialog(): void {
+    this.glossaryInput.value = formatGlossaryCsv(this.glossary);
+    this.glossaryStatus.textContent = `${this.glossary.length} terms`;
+    this.openModal(this.glossaryDialog);
+  }
+
+  /** Adds the terms from a CSV file to the ones in the dialog, unsaved. */
+  private async importGlossaryCsv(file: File): Promise<void> {
+    const imported = parseGlossaryCsv(await file.text());
+    const terms = parseGlossaryCsv(
+      `${this.glossaryInput.value}\n${formatGlossaryCsv(imported)}`,
+    );
+    this.glossaryInput.value = formatGlossaryCsv(terms);
+    this.glossaryStatus.textContent = `Imported ${imported.length} terms from ${file.name}. Save to use them.`;
+  }
+
+  private saveGlossaryFromDialog(): void {
+    this.glossary = parseGlossaryCsv(this.glossaryInput.value);
+    saveGlossary(this.glossary);
+    this.glossaryInput.value = formatGlossaryCsv(this.glossary);
+    this.glossaryStatus.textContent = `Saved ${this.glossary.length} terms.`;
+    if (this.currentNote) {
+      // Re-render with the new marks, keeping unsaved edits.
+      this.flushAutosave();
+      this.renderRawTranscription(this.currentNote);
+      this.renderPolishedNote(this.currentNote);
+    }
+  }
+
+  private openTemplatesDialog(): void {
+    this.templateStatus.textContent = '';
+    this.fillTemplateOptions(this.templateEditorSelect);
+    this.templateEditorSelect.value = this.templateSelect.value;
+    this.loadTemplateIntoEditor(this.templateEditorSelect.value);
+    this.openModal(this.templatesDialog);
+  }
+
+  private loadTemplateIntoEditor(id: string): void {
+    const template = this.findTemplate(id);
+    if (!template) return;
+    this.templateEditorSelect.value = template.id;
+    this.templateNameInput.value = template.name;
+    this.templateInstructionsInput.value = template.instructions;
+    const readOnly = !!template.builtIn;
+    this.templateNameInput.readOnly = readOnly;
+    this.templateInstructionsInput.readOnly = readOnly;
+    this.templatesDialog.classList.toggle('read-only', readOnly);
+    this.templateStatus.textContent = readOnly
+      ? 'Built-in templates are read-only. Duplicate one to customize it.'
+      : '';
+  }
+
+  private addUserTemplate(name: string, instructions: string): void {
+    const template = {id: `template_${Date.now()}`, name, instructions};
+    this.userTemplates.push(template);
+    saveUserTemplates(this.userTemplates);
+    this.fillTemplateOptions(this.templateEditorSelect);
+    this.loadTemplateIntoEditor(template.id);
+    this.renderTemplateOptions();
+    this.templateNameInput.focus();
+  }
+
+  private createTemplate(): void {
+    this.addUserTemplate(
+      'New template',
+      'Take this raw transcription and create a polished, well-formatted note in markdown.',
+    );
+  }
+
+  private duplicateTemplate(): void {
+    const template = this.findTemplate(this.templateEditorSelect.value);
+    if (!template) return;
+    this.addUserTemplate(`${template.name} (copy)`, template.instructions);
+  }
+
+  private deleteTemplate(): void {
+    const template = this.findTemplate(this.templateEditorSelect.value);
+    if (!template || template.builtIn) return;
+    if (!confirm(`Delete the "${template.name}" template?`)) return;
+    this.userTemplates = this.userTemplates.filter((t) => t.id !== template.id);
+    saveUserTemplates(this.userTemplates);
+    if (this.defaultTemplateId === template.id) {
+      this.defaultTemplateId = BUILT_IN_TEMPLATES[0].id;
+      saveDefaultTemplateId(this.defaultTemplateId);
+    }
+    this.fillTemplateOptions(this.templateEditorSelect);
+    this.loadTemplateIntoEditor(this.defaultTemplateId);
+    this.renderTemplateOptions();
+  }
+
+  private saveTemplateFromEditor(): void {
+    const template = this.userTemplates.find(
+      (t) => t.id === this.templateEditorSelect.value,
+    );
+    if (!template) return;
+    const name = this.templateNameInput.value.trim();
+    const instructions = this.templateInstructionsInput.value.trim();
+    if (!name || !instructions) {
+      this.templateStatus.textContent = 'Name and instructions are required.';
+      return;
+    }
+    template.name = name;
+    template.instructions = instructions;
+    try {
+      saveUserTemplates(this.userTemplates);
+    } catch (error) {
+      console.error('Error saving templates:', error);
+      this.templateStatus.textContent = 'Could not save the template.';
+      return;
+    }
+    this.fillTemplateOptions(this.templateEditorSelect);
+    this.templateEditorSelect.value = template.id;
+    this.renderTemplateOptions();
+    this.templateStatus.textContent = 'Template saved.';
+  }
+
+  private async toggleRecording(): Promise<void> {
+    if (!this.isRecording) {
+      await this.startRecording();
+    } else {
+      await this.stopRecording();
+    }
+  }
+
+  private setupAudioVisualizer(): void {
+    if (!this.stream || this.audioContext) return;
+
+    this.audioContext = createAudioContext();
+    const source = this.audioContext.createMediaStreamSource(this.stream);
+    this.analyserNode = this.audioContext.createAnalyser();
+    this.analyserNode.fftSize = 256;
+    this.analyserNode.smoothingTimeConstant = 0.75;
+    this.waveformDataArray = new Uint8Array(
+      this.analyserNode.frequencyBinCount,
+    );
+    source.connect(this.analyserNode);
+  }
+
+  private drawLiveWaveform(): void {
+    if (
+      !this.analyserNode ||
+      !this.waveformDataArray ||
+      !this.liveWaveformCtx ||
+      !this.liveWaveformCanvas ||
+      !this.isRecording ||
+      this.isPaused
+    ) {
+      if (this.waveformDrawingId) cancelAnimationFrame(this.waveformDrawingId);
+      this.waveformDrawingId = null;
+      return;
+    }
+
+    this.waveformDrawingId = requestAnimationFrame(() =>
+      this.drawLiveWaveform(),
+    );
+    this.analyserNode.getByteFrequencyData(this.waveformDataArray);
+
+    const ctx = this.liveWaveformCtx;
+    const canvas = this.liveWaveformCanvas;
+    const logicalWidth = canvas.clientWidth;
+    const logicalHeight = canvas.clientHeight;
+    ctx.clearRect(0, 0, logicalWidth, logicalHeight);
+    const bufferLength = this.analyserNode.frequencyBinCount;
+    const numBars = Math.floor(bufferLength * 0.5);
+    if (numBars === 0) return;
+    const totalBarPlusSpacingWidth = logicalWidth / numBars;
+    const barWidth = Math.max(1, Math.floor(totalBarPlusSpacingWidth * 0.7));
+    const barSpacing = Math.max(0, Math.floor(totalBarPlusSpacingWidth * 0.3));
+    let x = 0;
+    const recordingColor =
+      getComputedStyle(document.documentElement)
+        .getPropertyValue('--color-recording')
+        .trim() || '#ff3b30';
+    ctx.fillStyle = recordingColor;
+
+    for (let i = 0; i < numBars; i++) {
+      if (x >= logicalWidth) break;
+      const dataIndex = Math.floor(i * (bufferLength / numBars));
+      const barHeightNormalized = this.waveformDataArray[dataIndex] / 255.0;
+      let barHeight = barHeightNormalized * logicalHeight;
+      if (barHeight < 1 && barHeight > 0) barHeight = 1;
+      barHeight = Math.round(barHeight);
+      const y = Math.round((logicalHeight - barHeight) / 2);
+      ctx.fillRect(Math.floor(x), y, barWidth, barHeight);
+      x += barWidth + barSpacing;
+    }
+  }
+
+  private updateLiveTimer(): void {
+    if (!this.isRecording || !this.liveRecordingTimerDisplay) return;
+    const elapsedMs = Date.now() - this.recordingStartTime;
+    const totalSeconds = Math.floor(elapsedMs / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    const hundredths = Math.floor((elapsedMs % 1000) / 10);
+    this.liveRecordingTimerDisplay.textContent = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(hundredths).padStart(2, '0')}`;
+  }
+
+  private startLiveDisplay(): void {
+    if (
+      !this.recordingInterface ||
+      !this.liveRecordingTitle ||
+      !this.liveWaveformCanvas ||
+      !this.liveRecordingTimerDisplay
+    )
+      return;
+    this.recordingInterface.classList.add('is-live');
+    this.setupCanvasDimensions();
     if (this.statusIndicatorDiv) this.statusIndicatorDiv.style.display = 'none';
     const iconElement = this.recordButton.querySelector(
       '.record-button-inner i',
@@ -340,6 +2097,8 @@ class VoiceNotesApp {
 
   private stopLiveDisplay(): void {
     this.recordingInterface.classList.remove('is-live');
+    this.isPaused = false;
+    this.updatePauseButton();
     if (this.statusIndicatorDiv)
       this.statusIndicatorDiv.style.display = 'block';
     const iconElement = this.recordButton.querySelector(
@@ -364,6 +2123,57 @@ class VoiceNotesApp {
     this.waveformDataArray = null;
   }
 
+  /**
+   * Pauses or resumes the recording within the same MediaRecorder session,
+   * so the recording stays one file. The timer and waveform stand still
+   * while paused, and live transcription stops slicing.
+   */
+  private togglePause(): void {
+    const recorder = this.mediaRecorder;
+    if (!recorder || !this.isRecording) return;
+    if (!this.isPaused) {
+      recorder.pause();
+      this.isPaused = true;
+      this.pausedAt = Date.now();
+      if (this.timerIntervalId) clearInterval(this.timerIntervalId);
+      this.timerIntervalId = null;
+      if (this.sliceIntervalId) clearInterval(this.sliceIntervalId);
+      this.sliceIntervalId = null;
+      this.sliceRecorder?.stop();
+      this.sliceRecorder = null;
+    } else {
+      recorder.resume();
+      this.isPaused = false;
+      // Leave the paused time out of the timer and the live slice offsets.
+      const pausedFor = Date.now() - this.pausedAt;
+      this.recordingStartTime += pausedFor;
+      this.liveStartTime += pausedFor;
+      this.timerIntervalId = window.setInterval(
+        () => this.updateLiveTimer(),
+        50,
+      );
+      this.drawLiveWaveform();
+      if (this.recordingInterface.classList.contains('live-transcribing')) {
+        this.startSliceRecorder();
+        this.sliceIntervalId = window.setInterval(() => {
+          this.sliceRecorder?.stop();
+          this.startSliceRecorder();
+        }, LIVE_SLICE_MS);
+      }
+    }
+    this.updatePauseButton();
+  }
+
+  private updatePauseButton(): void {
+    this.recordingInterface.classList.toggle('is-paused', this.isPaused);
+    this.pauseButton.title = this.isPaused
+      ? 'Resume Recording'
+      : 'Pause Recording';
+    const icon = this.pauseButton.querySelector('i');
+    icon?.classList.toggle('fa-pause', !this.isPaused);
+    icon?.classList.toggle('fa-play', this.isPaused);
+  }
+
   private async startRecording(): Promise<void> {
     try {
       this.audioChunks = [];
@@ -372,9 +2182,13 @@ class VoiceNotesApp {
         await this.audioContext.close();
       this.audioContext = null;
       this.recordingStatus.textContent = 'Requesting microphone access...';
+      const deviceId = localStorage.getItem('microphoneId');
       try {
-        this.stream = await navigator.mediaDevices.getUserMedia({audio: true});
+        this.stream = await navigator.mediaDevices.getUserMedia({
+          audio: deviceId ? {deviceId: {exact: deviceId}} : true,
+        });
       } catch (err) {
+        // Also covers a chosen microphone that is no longer connected.
         this.stream = await navigator.mediaDevices.getUserMedia({
           audio: {
             echoCancellation: false,
@@ -392,24 +2206,39 @@ class VoiceNotesApp {
       }
       this.mediaRecorder.ondataavailable = (event) =>
         event.data.size > 0 && this.audioChunks.push(event.data);
+      const liveMode = this.liveTranscriptionEnabled;
       this.mediaRecorder.onstop = () => {
+        // Must run before the tracks stop so the final slice is complete.
+        const finalSlice = liveMode ? this.stopLiveSlices() : null;
         this.stopLiveDisplay();
         if (this.audioChunks.length > 0) {
           const audioBlob = new Blob(this.audioChunks, {
             type: this.mediaRecorder?.mimeType || 'audio/webm',
           });
-          this.processAudio(audioBlob).catch(console.error);
+          if (finalSlice) {
+            this.finishLiveTranscription(audioBlob, finalSlice).catch(
+              console.error,
+            );
+          } else {
+            this.processAudio(audioBlob).catch(console.error);
+          }
         } else
           this.recordingStatus.textContent =
             'No audio data captured. Please try again.';
         this.stream?.getTracks().forEach((track) => track.stop());
         this.stream = null;
       };
-      this.mediaRecorder.start();
+      if (liveMode) {
+        this.mediaRecorder.start(LIVE_SLICE_MS);
+        this.startLiveSlices();
+      } else {
+        this.mediaRecorder.start();
+      }
       this.isRecording = true;
       this.recordButton.classList.add('recording');
       this.recordButton.setAttribute('title', 'Stop Recording');
       this.startLiveDisplay();
+      this.renderMicrophoneOptions().catch(console.warn);
     } catch (error) {
       console.error('Error starting recording:', error);
       const errorName = error instanceof Error ? error.name : 'Unknown';
@@ -431,241 +2260,2645 @@ class VoiceNotesApp {
     }
   }
 
-  private async stopRecording(): Promise<void> {
-    if (this.mediaRecorder && this.isRecording) {
-      this.mediaRecorder.stop();
-      this.isRecording = false;
-      this.recordButton.classList.remove('recording');
-      this.recordButton.setAttribute('title', 'Start Recording');
-      this.recordingStatus.textContent = 'Processing audio...';
-    } else {
-      if (!this.isRecording) this.stopLiveDisplay();
-    }
+  /**
+   * Live mode runs a second recorder on the same stream and restarts it every
+   * LIVE_SLICE_MS. Each slice is then a standalone file that can be sent for
+   * transcription while the main recorder keeps capturing the full audio.
+   */
+  private startLiveSlices(): void {
+    if (!this.stream) return;
+    this.liveController?.abort();
+    this.liveController = new AbortController();
+    this.liveSegments = [];
+    this.liveLanguages = [];
+    this.liveQueue = Promise.resolve();
+    this.liveSliceFailed = false;
+    this.liveStartTime = Date.now();
+    this.liveTranscriptDisplay.textContent = '';
+    this.recordingInterface.classList.add('live-transcribing');
+    this.startSliceRecorder();
+    this.sliceIntervalId = window.setInterval(() => {
+      this.sliceRecorder?.stop();
+      this.startSliceRecorder();
+    }, LIVE_SLICE_MS);
   }
 
-  private async processAudio(audioBlob: Blob): Promise<void> {
-    if (audioBlob.size === 0) {
-      this.recordingStatus.textContent =
-        'No audio data captured. Please try again.';
-      return;
-    }
+  private startSliceRecorder(): void {
+    const stream = this.stream;
+    if (!stream) return;
+    let recorder: MediaRecorder;
     try {
-      this.recordingStatus.textContent = 'Converting audio...';
-      const reader = new FileReader();
-      const readResult = new Promise<string>((resolve, reject) => {
-        reader.onloadend = () => {
-          const base64data = reader.result as string;
-          resolve(base64data.split(',')[1]);
-        };
-        reader.onerror = () => reject(reader.error);
+      recorder = new MediaRecorder(stream, {
+        mimeType: this.mediaRecorder?.mimeType || 'audio/webm',
       });
-      reader.readAsDataURL(audioBlob);
-      const base64Audio = await readResult;
-      const mimeType = audioBlob.type;
-      if (!base64Audio || !mimeType) throw new Error('Audio conversion failed');
-      await this.getTranscription(base64Audio, mimeType);
-    } catch (error) {
-      console.error('Error in processAudio:', error);
-      this.recordingStatus.textContent =
-        'Error processing recording. Please try again.';
+    } catch (e) {
+      recorder = new MediaRecorder(stream);
     }
+    const offset = (Date.now() - this.liveStartTime) / 1000;
+    const parts: Blob[] = [];
+    recorder.ondataavailable = (event) =>
+      event.data.size > 0 && parts.push(event.data);
+    recorder.onstop = () => {
+      if (parts.length > 0) {
+        const slice = new Blob(parts, {type: recorder.mimeType});
+        this.enqueueLiveSlice(slice, offset);
+      }
+    };
+    recorder.start();
+    this.sliceRecorder = recorder;
   }
 
-  private async getTranscription(
-    base64Audio: string,
-    mimeType: string,
-  ): Promise<void> {
-    try {
-      this.recordingStatus.textContent = 'Getting transcription...';
-      const contents = [
-        {text: 'Generate a complete, detailed transcript of this audio.'},
-        {inlineData: {mimeType: mimeType, data: base64Audio}},
-      ];
-      const response = await this.genAI.models.generateContent({
-        model: MODEL_NAME,
-        contents: contents,
-      });
-      const transcriptionText = response.text;
-      if (transcriptionText) {
-        this.rawTranscription.textContent = transcriptionText;
-        this.rawTranscription.classList.remove('placeholder-active');
-        if (this.currentNote)
-          this.currentNote.rawTranscription = transcriptionText;
-        this.recordingStatus.textContent =
-          'Transcription complete. Polishing note...';
-        await this.getPolishedNote();
-      } else {
-        this.recordingStatus.textContent =
-          'Transcription failed or returned empty.';
-      }
-    } catch (error) {
-      console.error('Error getting transcription:', error);
-      this.recordingStatus.textContent =
-        'Error getting transcription. Please try again.';
-    }
+  /** Stops slicing and resolves once every slice has been transcribed. */
+  private stopLiveSlices(): Promise<void> {
+    if (this.sliceIntervalId) clearInterval(this.sliceIntervalId);
+    this.sliceIntervalId = null;
+    this.recordingInterface.classList.remove('live-transcribing');
+    const recorder = this.sliceRecorder;
+    this.sliceRecorder = null;
+    if (!recorder || recorder.state === 'inactive') return this.liveQueue;
+    const stopped = new Promise<void>((resolve) =>
+      recorder.addEventListener('stop', () => resolve(), {once: true}),
+    );
+    recorder.stop();
+    // onstop has enqueued the final slice by the time `stopped` resolves.
+    return stopped.then(() => this.liveQueue);
   }
 
-  private async getPolishedNote(): Promise<void> {
-    try {
-      if (
-        !this.rawTranscription.textContent ||
-        this.rawTranscription.textContent.trim() === ''
-      ) {
+  private enqueueLiveSlice(slice: Blob, offset: number): void {
+    const signal = this.liveController?.signal;
+    if (!signal) return;
+    this.liveQueue = this.liveQueue.then(async () => {
+      if (signal.aborted) return;
+      try {
+        const prepared = await abortable(this.prepareAudio(slice), signal);
+        const result = await this.getTranscriber(this.currentNote).transcribe(
+          prepared.audio,
+          signal,
+        );
+        const segments = result.segments
+          ? mapSegmentTimes(result.segments, prepared.toOriginalTime)
+          : [{start: 0, end: 0, speaker: 'Speaker 1', text: result.text}];
+        this.liveLanguages.push(result.language);
+        segments.forEach((segment) => {
+          if (!segment.text) return;
+          this.liveSegments.push({
+            ...segment,
+            start: segment.start + offset,
+            end: segment.end + offset,
+          });
+        });
+        this.renderLiveTranscript();
+      } catch (error) {
+        if (signal.aborted) return;
+        // The full recording is transcribed instead once recording stops.
+        console.warn('Live transcription of a slice failed:', error);
+        this.liveSliceFailed = true;
+      }
+    });
+  }
+
+  private renderLiveTranscript(): void {
+    this.liveTranscriptDisplay.textContent = this.liveSegments
+      .map((segment) => segment.text)
+      .join(' ');
+    this.liveTranscriptDisplay.scrollTop =
+      this.liveTranscriptDisplay.scrollHeight;
+  }
+
+  private getLiveTranscript(): TranscriptResult {
+    return {
+      segments: this.liveSegments,
+      text: segmentsToText(this.liveSegments),
+      language: mostCommonLanguage(this.liveLanguages),
+    };
+  }
+
+  private async finishLiveTranscription(
+    audioBlob: Blob,
+    finalSlice: Promise<void>,
+  ): Promise<void> {
+    const liveController = this.liveController;
+    this.liveController = null;
+    const note = this.currentNote;
+    if (!note) return;
+    if (!liveController || liveController.signal.aborted) {
+      // The live transcript is incomplete; transcribe the whole recording.
+      await this.processAudio(audioBlob);
+      return;
+    }
+    const signal = this.beginGeneration();
+    // Stopping now also stops the slices that are still being transcribed.
+    signal.addEventListener('abort', () => liveController.abort(), {
+      once: true,
+    });
+    try {
+      const continuing = this.isContinuingNote();
+      if (!continuing) await this.storeNoteAudio(note, audioBlob);
+      this.recordingStatus.textContent = 'Transcribing final part...';
+      await abortable(finalSlice, signal);
+      const liveFailed = this.liveSliceFailed || this.liveSegments.length === 0;
+      if (continuing) {
+        const added = await this.appendRecording(
+          audioBlob,
+          signal,
+          liveFailed ? undefined : this.getLiveTranscript(),
+        );
+        if (added) await this.getPolishedNote(note, signal);
+        return;
+      }
+      if (liveFailed) {
+        await this.getTranscription(note, audioBlob, signal);
+        return;
+      }
+      this.applyTranscription(note, this.getLiveTranscript());
+      this.recordingStatus.textContent =
+        'Transcription complete. Polishing note...';
+      await this.getPolishedNote(note, signal);
+    } catch (error) {
+      if (signal.aborted) {
+        this.handleGenerationStopped();
+        return;
+      }
+      console.error('Error finishing live transcription:', error);
+      this.recordingStatus.textContent =
+        'Error processing recording. Please try again.';
+    } finally {
+      this.endGeneration(signal);
+    }
+  }
+
+  private async stopRecording(): Promise<void> {
+    if (this.mediaRecorder && this.isRecording) {
+      this.mediaRecorder.stop();
+      this.isRecording = false;
+      this.recordButton.classList.remove('recording');
+      this.recordButton.setAttribute('title', 'Start Recording');
+      this.recordingStatus.textContent = 'Processing audio...';
+    } else {
+      if (!this.isRecording) this.stopLiveDisplay();
+    }
+  }
+
+  private async processAudio(audioBlob: Blob): Promise<void> {
+    if (audioBlob.size === 0) {
+      this.recordingStatus.textContent =
+        'No audio data captured. Please try again.';
+      return;
+    }
+    if (
+      this.isContinuingNote() &&
+      this.waitsForNetwork(this.currentNote, 'transcription')
+    ) {
+      // Adding to a note needs the network to transcribe the recording, so
+      // keep it as a note of its own until the connection is back.
+      this.createNewNote();
+    }
+    const note = this.currentNote;
+    if (!note) return;
+    const signal = this.beginGeneration();
+    try {
+      if (this.isContinuingNote()) {
+        if (await this.appendRecording(audioBlob, signal)) {
+          await this.getPolishedNote(note, signal);
+        }
+        return;
+      }
+      await this.storeNoteAudio(note, audioBlob);
+      if (note.hasAudio && this.waitsForNetwork(note, 'transcription')) {
+        this.holdForNetwork(note, 'transcription');
+        return;
+      }
+      await this.getTranscription(note, audioBlob, signal);
+    } catch (error) {
+      console.error('Error in processAudio:', error);
+      this.recordingStatus.textContent =
+        'Error processing recording. Please try again.';
+    } finally {
+      this.endGeneration(signal);
+    }
+  }
+
+  /**
+   * Preprocesses audio before it is transcribed, or returns it unchanged,
+   * without stats, if it cannot be decoded.
+   */
+  private async prepareAudio(audioBlob: Blob): Promise<{
+    audio: Blob;
+    stats?: AudioProcessingStats;
+    toOriginalTime: (seconds: number) => number;
+  }> {
+    try {
+      return await preprocessAudio(audioBlob);
+    } catch (error) {
+      // Too large to decode at all, so too large to transcribe as well.
+      if (error instanceof GeminiError) throw error;
+      console.warn('Could not preprocess audio, using it as is:', error);
+      return {audio: audioBlob, toOriginalTime: (seconds) => seconds};
+    }
+  }
+
+  private renderAudioStats(note: Note): void {
+    const stats = note.audioProcessing;
+    this.audioStats.classList.toggle('hidden', !stats);
+    this.audioStats.textContent = stats ? describeAudioProcessing(stats) : '';
+  }
+
+  /**
+   * Transcribes a recording or upload and adds it after the current note's
+   * transcript. Its audio is stored as a new part of the note's audio, so
+   * the new segments play from the right time. Resolves false, leaving the
+   * note as it was, if this failed or was stopped; polishing is up to the
+   * caller.
+   */
+  private async appendRecording(
+    audioBlob: Blob,
+    signal: AbortSignal,
+    liveTranscript?: TranscriptResult,
+  ): Promise<boolean> {
+    const note = this.currentNote;
+    if (!note) return false;
+    try {
+      this.recordingStatus.textContent = 'Adding the recording to this note...';
+      // Where the recording starts in the note's audio, or null if the note
+      // has no audio, or none that can be read, to put it after.
+      let start: number | null = null;
+      if (note.hasAudio) {
+        try {
+          start = await abortable(this.findAudioEnd(note), signal);
+        } catch (error) {
+          if (signal.aborted) throw error;
+          console.warn('Could not read the note audio:', error);
+          start = null;
+        }
+      }
+      let transcript = liveTranscript;
+      if (!transcript) {
+        ({transcript} = await this.transcribeAudio(
+          this.getTranscriber(note),
+          audioBlob,
+          signal,
+          () => {},
+          (status) => (this.recordingStatus.textContent = status),
+        ));
+      }
+      if (!transcript.text) throw new GeminiError('empty');
+
+      // The user may have switched to another note in the meantime.
+      if (this.currentNote !== note) return false;
+      // Pick up edits made to the transcript while this one was made.
+      this.flushAutosave();
+      const offset = start ?? note.segments?.at(-1)?.end ?? 0;
+      const combined = appendTranscript(
+        {segments: note.segments, text: note.rawTranscription},
+        transcript,
+        offset,
+      );
+      this.applyTranscription(
+        note,
+        {...combined, language: note.language ?? transcript.language},
+        'Added recording',
+      );
+      // The recording can only be played back from `offset` if it follows
+      // the note's audio, or becomes its first audio starting at 0.
+      if (start !== null || (!note.hasAudio && offset === 0)) {
+        try {
+          if (note.hasAudio) {
+            const parts = note.audioParts ?? [];
+            await saveAudio(note.id, audioBlob, parts.length + 1);
+            note.audioParts = [...parts, offset];
+          } else {
+            await saveAudio(note.id, audioBlob);
+            note.hasAudio = true;
+          }
+          if (this.currentNote === note) {
+            this.loadNoteAudio(note).catch(console.error);
+          }
+        } catch (error) {
+          console.warn('Could not store note audio:', error);
+        }
+      }
+      return true;
+    } catch (error) {
+      if (signal.aborted) {
+        this.handleGenerationStopped();
+        return false;
+      }
+      console.error('Error adding recording to note:', error);
+      this.recordingStatus.textContent = `Could not add the recording: ${
+        classifyGeminiError(error).message
+      }`;
+      return false;
+    }
+  }
+
+  /** The time in seconds at which a note's stored audio ends. */
+  private async findAudioEnd(note: Note): Promise<number> {
+    const parts = note.audioParts ?? [];
+    const last = await loadAudio(note.id, parts.length);
+    if (!last) throw new Error('The note audio is no longer available.');
+    return (parts.at(-1) ?? 0) + (await decodeAudio(last)).duration;
+  }
+
+  /** Adds uploaded files to the current note in order, then polishes once. */
+  private async appendUploads(files: File[]): Promise<void> {
+    const signal = this.beginGeneration();
+    try {
+      let added = false;
+      for (const file of files) {
+        if (!(await this.appendRecording(file, signal))) break;
+        added = true;
+      }
+      if (added && !signal.aborted && this.currentNote) {
+        await this.getPolishedNote(this.currentNote, signal);
+      }
+    } finally {
+      this.endGeneration(signal);
+    }
+  }
+
+  private beginGeneration(): AbortSignal {
+    this.flushAutosave();
+    this.generationController?.abort();
+    this.generationController = new AbortController();
+    this.stopGenerationButton.classList.remove('invisible');
+    return this.generationController.signal;
+  }
+
+  private endGeneration(signal: AbortSignal): void {
+    // A newer generation may have replaced this one in the meantime.
+    if (this.generationController?.signal !== signal) return;
+    this.generationController = null;
+    this.stopGenerationButton.classList.add('invisible');
+    this.restartAutosaveTimer();
+  }
+
+  private stopGeneration(): void {
+    if (!this.generationController) return;
+    this.generationController.abort();
+    this.generationController = null;
+    this.stopGenerationButton.classList.add('invisible');
+    this.restartAutosaveTimer();
+  }
+
+  /**
+   * Puts the panes back to the last completed state of the current note and
+   * keeps whatever finished before the stop, e.g. the transcript when
+   * polishing was cancelled.
+   */
+  private handleGenerationStopped(): void {
+    if (this.currentNote) {
+      this.renderRawTranscription(this.currentNote);
+      this.renderPolishedNote(this.currentNote);
+      this.saveOrUpdateCurrentNote();
+    }
+    this.recordingStatus.textContent = 'Generation stopped.';
+  }
+
+  private async storeNoteAudio(note: Note, audioBlob: Blob): Promise<void> {
+    try {
+      await saveAudio(note.id, audioBlob);
+      note.hasAudio = true;
+      if (this.currentNote === note) {
+        this.showAudio([{start: 0, audio: audioBlob}]);
+      }
+    } catch (error) {
+      // Keep going without playback rather than losing the transcription.
+      console.warn('Could not store note audio:', error);
+      if (error instanceof StorageError && error.isQuotaExceeded) {
+        this.recordingStatus.textContent = `${error.message} Audio will not be kept for this note.`;
+      }
+    }
+  }
+
+  /** Puts the audio parts in the player, starting with the first one. */
+  private showAudio(parts: Array<{start: number; audio: Blob}>): void {
+    this.audioPlayer.pause();
+    this.audioParts.forEach(({url}) => URL.revokeObjectURL(url));
+    this.audioParts = parts.map(({start, audio}) => ({
+      start,
+      url: URL.createObjectURL(audio),
+    }));
+    this.audioPartIndex = 0;
+    if (this.audioParts.length) {
+      this.audioPlayer.src = this.audioParts[0].url;
+    } else {
+      this.audioPlayer.removeAttribute('src');
+      this.audioPlayer.load();
+    }
+    this.audioPlayerContainer.classList.toggle('hidden', !parts.length);
+  }
+
+  /** Switches the player to an audio part, `time` seconds into it. */
+  private showAudioPart(index: number, time = 0): void {
+    if (index !== this.audioPartIndex) {
+      this.audioPartIndex = index;
+      this.audioPlayer.src = this.audioParts[index].url;
+    }
+    this.audioPlayer.currentTime = time;
+  }
+
+  private playNextAudioPart(): void {
+    if (this.audioPartIndex >= this.audioParts.length - 1) return;
+    this.showAudioPart(this.audioPartIndex + 1);
+    this.audioPlayer.play().catch(console.warn);
+  }
+
+  /** The playback position in the note's audio as a whole, in seconds. */
+  private getAudioTime(): number {
+    const part = this.audioParts[this.audioPartIndex];
+    return (part?.start ?? 0) + this.audioPlayer.currentTime;
+  }
+
+  private async loadNoteAudio(note: Note): Promise<void> {
+    if (!note.hasAudio) {
+      this.showAudio([]);
+      return;
+    }
+    try {
+      const starts = [0, ...(note.audioParts ?? [])];
+      const parts = await loadAudioParts(note.id, starts.length - 1);
+      // The user may have switched notes while the audio was loading.
+      if (this.currentNote?.id !== note.id) return;
+      this.showAudio(
+        parts.map((audio, index) => ({start: starts[index], audio})),
+      );
+    } catch (error) {
+      console.warn('Could not load note audio:', error);
+      this.showAudio([]);
+    }
+  }
+
+  /**
+   * Transcribes a recording, preprocessing it and splitting it into parts
+   * first if it is long. The transcript's times refer to the audio as it was
+   * given, which is what notes keep. Also resolves with what preprocessing
+   * saved, unless the audio could not be decoded. Progress messages go to
+   * `onStatus` so this also works for notes that are not on screen.
+   */
+  private async transcribeAudio(
+    transcriber: Transcriber,
+    audioBlob: Blob,
+    signal: AbortSignal,
+    onPartial: (segments: TranscriptSegment[]) => void,
+    onStatus: (status: string) => void,
+  ): Promise<{transcript: TranscriptResult; stats?: AudioProcessingStats}> {
+    onStatus('Preparing audio...');
+    const {audio, stats, toOriginalTime} = await abortable(
+      this.prepareAudio(audioBlob),
+      signal,
+    );
+    const onProcessedPartial = (segments: TranscriptSegment[]) =>
+      onPartial(mapSegmentTimes(segments, toOriginalTime));
+    let transcript = await this.transcribeInChunks(
+      transcriber,
+      audio,
+      signal,
+      onProcessedPartial,
+      onStatus,
+    );
+    if (!transcript) {
+      onStatus('Getting transcription...');
+      transcript = await transcriber.transcribe(
+        audio,
+        signal,
+        onProcessedPartial,
+        onStatus,
+      );
+    }
+    const segments =
+      transcript.segments &&
+      mapSegmentTimes(transcript.segments, toOriginalTime);
+    return {transcript: {...transcript, segments}, stats};
+  }
+
+  /**
+   * Transcribes recordings longer than one chunk, or too large to send
+   * inline, by splitting them at silences and transcribing the parts
+   * concurrently. Returns null when the audio is short and small enough (or
+   * cannot be decoded) and should be sent whole.
+   */
+  private async transcribeInChunks(
+    transcriber: Transcriber,
+    audioBlob: Blob,
+    signal: AbortSignal,
+    onPartial: (segments: TranscriptSegment[]) => void,
+    onStatus: (status: string) => void,
+  ): Promise<TranscriptResult | null> {
+    let buffer: AudioBuffer;
+    try {
+      onStatus('Decoding audio...');
+      buffer = await abortable(decodeAudio(audioBlob), signal);
+    } catch (error) {
+      if (signal.aborted || error instanceof GeminiError) throw error;
+      console.warn('Could not decode audio, sending it whole:', error);
+      return null;
+    }
+    // Short recordings are still split if the file is too large to send.
+    if (
+      buffer.duration <= CHUNK_TARGET_SECONDS * 1.2 &&
+      audioBlob.size <= MAX_INLINE_AUDIO_BYTES
+    ) {
+      return null;
+    }
+
+    const chunks = planChunks(buffer);
+    const chunkSegments: TranscriptSegment[][] = [];
+    const chunkLanguages: Array<string | undefined> = [];
+    let done = 0;
+    const inProgress = new Set<number>();
+    const updateProgress = () => {
+      const numbers = Array.from(inProgress, (index) => index + 1)
+        .sort((a, b) => a - b)
+        .join(', ');
+      onStatus(
+        inProgress.size
+          ? `Transcribing part${inProgress.size > 1 ? 's' : ''} ${numbers} of ${chunks.length} (${done} done)...`
+          : `Transcribed ${done} of ${chunks.length} parts...`,
+      );
+    };
+    updateProgress();
+
+    const tasks = chunks.map((chunk) => async () => {
+      inProgress.add(chunk.index);
+      updateProgress();
+      try {
+        const wav = encodeWav(buffer, chunk.start, chunk.end);
+        const result = await transcriber.transcribe(wav, signal);
+        chunkLanguages[chunk.index] = result.language;
+        chunkSegments[chunk.index] =
+          result.segments ??
+          (result.text
+            ? [
+                {
+                  start: 0,
+                  end: chunk.end - chunk.start,
+                  speaker: 'Speaker 1',
+                  text: result.text,
+                },
+              ]
+            : []);
+        // Show everything up to the first chunk that is still in flight.
+        let ready = 0;
+        while (chunkSegments[ready]) ready++;
+        onPartial(
+          stitchChunkSegments(
+            chunks.slice(0, ready),
+            chunkSegments.slice(0, ready),
+          ),
+        );
+      } finally {
+        inProgress.delete(chunk.index);
+        done++;
+        updateProgress();
+      }
+    });
+    await runWithConcurrency(tasks, CHUNK_CONCURRENCY);
+    const segments = stitchChunkSegments(chunks, chunkSegments);
+    return {
+      segments,
+      text: segmentsToText(segments),
+      language: mostCommonLanguage(chunkLanguages),
+    };
+  }
+
+  /** Stores a transcript in a note, and shows it if the note is open. */
+  private applyTranscription(
+    note: Note,
+    result: TranscriptResult,
+    label = 'Transcription',
+  ): void {
+    const {transcript, corrected} = correctTranscript(result, this.glossary);
+    note.segments = transcript.segments ?? undefined;
+    note.rawTranscription = transcript.text;
+    if (transcript.language) note.language = transcript.language;
+    this.addGlossaryCorrections(note, corrected);
+    delete note.failure;
+    delete note.pending;
+    if (this.currentNote === note) {
+      this.renderRawTranscription(note);
+      this.renderNoteLanguage(note);
+    }
+    this.recordRevision(note, 'model', label);
+  }
+
+  /** Remembers the glossary terms a transcript was corrected to, for review. */
+  private addGlossaryCorrections(note: Note, corrected: string[]): void {
+    if (corrected.length === 0) return;
+    note.glossaryCorrections = Array.from(
+      new Set([...(note.glossaryCorrections ?? []), ...corrected]),
+    );
+  }
+
+  private async getTranscription(
+    note: Note,
+    audioBlob: Blob,
+    signal: AbortSignal,
+  ): Promise<void> {
+    const showPartial = throttleToAnimationFrame(
+      (segments: TranscriptSegment[]) => {
+        if (this.currentNote !== note || signal.aborted) return;
+        this.renderRawTranscription({
+          ...note,
+          segments,
+          rawTranscription: segmentsToText(segments),
+        });
+      },
+    );
+    try {
+      const {transcript, stats} = await this.transcribeAudio(
+        this.getTranscriber(note),
+        audioBlob,
+        signal,
+        showPartial,
+        (status) => (this.recordingStatus.textContent = status),
+      );
+      showPartial.cancel();
+      note.audioProcessing = stats;
+      if (this.currentNote === note) this.renderAudioStats(note);
+      if (!transcript.text) throw new GeminiError('empty');
+      this.applyTranscription(note, transcript);
+    } catch (error) {
+      showPartial.cancel();
+      if (signal.aborted) {
+        this.handleGenerationStopped();
+        return;
+      }
+      console.error('Error getting transcription:', error);
+      this.recordFailure(note, 'transcription', error);
+      return;
+    }
+    this.recordingStatus.textContent =
+      'Transcription complete. Polishing note...';
+    await this.getPolishedNote(note, signal);
+  }
+
+  /**
+   * Saves the note, audio included, marked as failed at `step` so it can be
+   * retried from the sidebar instead of re-recording, and tells the user
+   * what went wrong.
+   */
+  private recordFailure(
+    note: Note,
+    step: NoteFailure['step'],
+    error: unknown,
+  ): void {
+    const {kind, message} = classifyGeminiError(error);
+    if (this.currentNote === note) {
+      // Drop any partial output that was streamed in before the failure.
+      if (step === 'transcription') this.renderRawTranscription(note);
+      else this.renderPolishedNote(note);
+    }
+    if (kind === 'network' && note.hasAudio) {
+      this.holdForNetwork(note, step);
+      return;
+    }
+    this.recordingStatus.textContent = `${
+      step === 'transcription' ? 'Transcription' : 'Polishing'
+    } failed: ${message}`;
+    note.failure = {step, kind, message, timestamp: Date.now()};
+    this.saveNote(note);
+  }
+
+  /**
+   * Keeps a recording as a pending note, to be processed from its stored
+   * audio by processPendingNotes once the connection is back.
+   */
+  private holdForNetwork(note: Note, step: PendingProcessing['step']): void {
+    note.pending = {
+      step,
+      templateId: note.polishTemplateId ?? this.defaultTemplateId,
+      since: Date.now(),
+    };
+    delete note.failure;
+    this.saveNote(note);
+    this.recordingStatus.textContent =
+      'No network connection. The recording is saved and will be processed when you are back online.';
+  }
+
+  /**
+   * True if a step for the note has to wait for the network to come back:
+   * polishing always needs it, transcription only when Gemini does it.
+   */
+  private waitsForNetwork(
+    note: Note | null,
+    step: PendingProcessing['step'],
+  ): boolean {
+    if (navigator.onLine) return false;
+    return (
+      step === 'polishing' ||
+      this.getTranscriber(note) instanceof GeminiTranscriber
+    );
+  }
+
+  /**
+   * Transcribes and polishes the notes recorded while offline, one at a
+   * time, in the background. Skips the ones that still need the network if
+   * the connection drops again.
+   */
+  private async processPendingNotes(): Promise<void> {
+    if (this.pendingRunning) return;
+    this.pendingRunning = true;
+    try {
+      for (const note of this.notes.filter((n) => n.pending)) {
+        // Deleted, or processed by hand, while earlier notes were processed.
+        if (!note.pending || !this.notes.includes(note)) continue;
+        if (this.waitsForNetwork(note, note.pending.step)) continue;
+        await this.processPendingNote(note, note.pending);
+      }
+    } finally {
+      this.pendingRunning = false;
+    }
+  }
+
+  private async processPendingNote(
+    note: Note,
+    pending: PendingProcessing,
+  ): Promise<void> {
+    const controller = new AbortController();
+    this.pendingController = controller;
+    this.processingNoteId = note.id;
+    this.renderSidebar();
+    let step = pending.step;
+    let transcript: TranscriptResult | null = null;
+    let correctedTerms: string[] = [];
+    let polished: {polishedText: string; template: PolishTemplate} | null =
+      null;
+    let failure: unknown = null;
+    try {
+      if (step === 'transcription') {
+        const audio = note.hasAudio ? await loadAudio(note.id) : null;
+        if (!audio) throw new Error('The recording is no longer available.');
+        const {transcript: result, stats} = await this.transcribeAudio(
+          this.getTranscriber(note),
+          audio,
+          controller.signal,
+          () => {},
+          () => {},
+        );
+        note.audioProcessing = stats;
+        if (!result.text) throw new GeminiError('empty');
+        ({transcript, corrected: correctedTerms} = correctTranscript(
+          result,
+          this.glossary,
+        ));
+        step = 'polishing';
+      }
+      polished = await this.polishInBackground(
+        transcript?.text ?? note.rawTranscription,
+        pending.templateId,
+        controller.signal,
+        () => {},
+      );
+    } catch (error) {
+      failure = error;
+    } finally {
+      this.pendingController = null;
+      this.processingNoteId = null;
+    }
+    if (controller.signal.aborted || !this.notes.includes(note)) return;
+
+    // Keep edits made to the note while it was processed, e.g. its title.
+    if (this.currentNote === note) this.flushAutosave();
+    if (transcript) {
+      note.rawTranscription = transcript.text;
+      note.segments = transcript.segments ?? undefined;
+      note.language = transcript.language ?? note.language;
+      this.addGlossaryCorrections(note, correctedTerms);
+      this.recordRevision(note, 'model', 'Transcription');
+    }
+    if (polished) {
+      const {polishedText, template} = polished;
+      note.polishedNote = polishedText;
+      note.title = deriveNoteTitle(polishedText) || note.title;
+      note.polishTemplateId = template.id;
+      note.polishTemplateName = template.name;
+      delete note.pending;
+      this.recordRevision(note, 'model', `Polished (${template.name})`);
+      this.suggestTags(note).catch((error) =>
+        console.warn('Could not suggest tags:', error),
+      );
+    } else {
+      console.error('Error processing pending note:', failure);
+      const {kind, message} = classifyGeminiError(failure);
+      if (kind === 'network') {
+        note.pending = {...pending, step};
+      } else {
+        delete note.pending;
+        note.failure = {step, kind, message, timestamp: Date.now()};
+      }
+    }
+    note.updatedAt = Date.now();
+    this.persistNote(note);
+    if (this.currentNote === note) this.displayNote(note);
+    this.renderSidebar();
+  }
+
+  /** Runs the step that failed for a note again, from its stored audio. */
+  private async retryFailedNote(noteId: string): Promise<void> {
+    const note = this.notes.find((n) => n.id === noteId);
+    if (!note?.failure) return;
+    if (this.currentNote?.id !== noteId) this.displayNoteById(noteId);
+    if (note.failure.step === 'polishing' && note.rawTranscription.trim()) {
+      await this.repolishCurrentNote();
+      return;
+    }
+    let audio: Blob | null = null;
+    try {
+      audio = note.hasAudio ? await loadAudio(noteId) : null;
+    } catch (error) {
+      console.warn('Could not load note audio:', error);
+    }
+    if (!audio) {
+      this.recordingStatus.textContent =
+        'The audio for this note is no longer available. Please record it again.';
+      return;
+    }
+    // The user may have switched notes while the audio was loading.
+    if (this.currentNote?.id !== noteId) return;
+    const signal = this.beginGeneration();
+    try {
+      this.recordingStatus.textContent = 'Retrying transcription...';
+      await this.getTranscription(note, audio, signal);
+    } finally {
+      this.endGeneration(signal);
+    }
+  }
+
+  /**
+   * Polishes a note's transcript into it. The note may be closed while this
+   * runs; the result still goes to it and is only shown if it is open.
+   */
+  private async getPolishedNote(
+    note: Note,
+    signal: AbortSignal,
+  ): Promise<void> {
+    const isShown = () => this.currentNote === note;
+    const showPartial = throttleToAnimationFrame((text: string) => {
+      if (signal.aborted || !isShown()) return;
+      this.renderPolishedMarkdown(text);
+    });
+    try {
+      const rawText = isShown()
+        ? this.getRawTranscriptText()
+        : note.rawTranscription.trim();
+      if (!rawText) {
         this.recordingStatus.textContent = 'No transcription to polish';
         return;
       }
-      this.recordingStatus.textContent = 'Polishing note...';
-      const prompt = `Take this raw transcription and create a polished, well-formatted note. Remove filler words, repetitions, and false starts. Format lists and use markdown for headings. Maintain original content and meaning. Raw transcription: ${this.rawTranscription.textContent}`;
+      const templateId = isShown()
+        ? this.templateSelect.value
+        : (note.polishTemplateId ?? this.defaultTemplateId);
+      const template = this.findTemplate(templateId) ?? BUILT_IN_TEMPLATES[0];
+      this.recordingStatus.textContent = `Polishing note (${template.name})...`;
+      const prompt = buildPolishPrompt(
+        template,
+        rawText,
+        this.glossary,
+        this.settings.polishLanguage,
+      );
       const contents = [{text: prompt}];
-      const response = await this.genAI.models.generateContent({
-        model: MODEL_NAME,
-        contents: contents,
+      const polishedText = await withRetry(
+        () =>
+          streamGeneratedText(
+            this.genAI,
+            {
+              model: this.settings.polishingModel,
+              contents: contents,
+              config: {temperature: this.settings.temperature},
+            },
+            signal,
+            showPartial,
+          ),
+        signal,
+        (error, delayMs) =>
+          (this.recordingStatus.textContent = describeRetry(error, delayMs)),
+      );
+      showPartial.cancel();
+      if (!polishedText) throw new GeminiError('empty');
+
+      const title = deriveNoteTitle(polishedText);
+      note.polishedNote = polishedText;
+      note.polishTemplateId = template.id;
+      note.polishTemplateName = template.name;
+      delete note.failure;
+      delete note.pending;
+      if (isShown()) {
+        this.renderPolishedMarkdown(polishedText);
+        if (title) {
+          this.editorTitle.textContent = title;
+          this.editorTitle.classList.remove('placeholder-active');
+        }
+        this.saveOrUpdateCurrentNote();
+      } else {
+        note.title = title || note.title;
+        this.saveNote(note);
+      }
+      this.recordingStatus.textContent =
+        'Note polished. Ready for next recording.';
+      this.recordRevision(note, 'model', `Polished (${template.name})`);
+      this.suggestTags(note).catch((error) =>
+        console.warn('Could not suggest tags:', error),
+      );
+    } catch (error) {
+      showPartial.cancel();
+      if (signal.aborted) {
+        this.handleGenerationStopped();
+        return;
+      }
+      console.error('Error polishing note:', error);
+      this.recordFailure(note, 'polishing', error);
+    }
+  }
+
+  private createNewNote(): void {
+    // A generation still running goes on into the note it was started for.
+    this.flushAutosave();
+    this.currentNote = {
+      id: `note_${Date.now()}`,
+      title: '',
+      rawTranscription: '',
+      polishedNote: '',
+      timestamp: Date.now(),
+    };
+    this.displayNote(this.currentNote);
+    this.recordingStatus.textContent = 'Ready to record';
+    if (this.isRecording) {
+      this.mediaRecorder?.stop();
+      this.isRecording = false;
+      this.recordButton.classList.remove('recording');
+    } else {
+      this.stopLiveDisplay();
+    }
+    this.renderSidebar();
+  }
+
+  private saveOrUpdateCurrentNote(): void {
+    if (!this.currentNote) return;
+    this.currentNote.title =
+      this.editorTitle.textContent?.trim() || 'Untitled Note';
+    this.saveNote(this.currentNote);
+  }
+
+  /** Stores a note that has content, adding it to the list if it is new. */
+  private saveNote(note: Note): void {
+    // Failed and pending notes are kept, even if empty, for their audio.
+    const hasContent =
+      note.rawTranscription.trim() ||
+      note.polishedNote.trim() ||
+      note.failure ||
+      note.pending;
+    if (!hasContent) return;
+    note.updatedAt = Date.now();
+
+    const noteIndex = this.notes.findIndex((n) => n.id === note.id);
+    if (noteIndex > -1) {
+      this.notes[noteIndex] = note;
+    } else {
+      this.notes.unshift(note);
+    }
+    this.persistNote(note);
+    this.renderSidebar();
+  }
+
+  private persistNote(note: Note): void {
+    this.searchIndex.upsert(note);
+    this.scheduleEmbedding(note.id);
+    saveNoteRecord(note).catch((error) =>
+      this.reportStorageError('Could not save note', error),
+    );
+  }
+
+  private reportStorageError(context: string, error: unknown): void {
+    console.error(`${context}:`, error);
+    this.recordingStatus.textContent =
+      error instanceof StorageError
+        ? error.message
+        : `${context}. Please try again.`;
+  }
+
+  private async loadStoredNotes(): Promise<void> {
+    try {
+      this.folders = await loadFolderRecords();
+      const {notes, skipped} = await loadNoteRecords();
+      // Keep anything saved while the stored notes were loading.
+      const loadedIds = new Set(notes.map((note) => note.id));
+      this.notes = [
+        ...this.notes.filter((note) => !loadedIds.has(note.id)),
+        ...notes,
+      ];
+      notes.forEach((note) => this.searchIndex.upsert(note));
+      this.renderSidebar();
+      this.renderFolderOptions();
+      if (skipped > 0) {
+        this.recordingStatus.textContent = `Skipped ${skipped} unreadable note${skipped === 1 ? '' : 's'}.`;
+      }
+    } catch (error) {
+      this.reportStorageError('Could not load notes', error);
+      return;
+    }
+    try {
+      const records = await loadEmbeddingRecords();
+      records.forEach((record) => this.embeddingIndex.set(record));
+    } catch (error) {
+      console.warn('Could not load note embeddings:', error);
+    }
+    this.notes.forEach((note) => this.scheduleEmbedding(note.id));
+    this.processPendingNotes().catch(console.error);
+  }
+
+  /**
+   * Queues a note to be (re-)embedded for the notes chat. Notes whose
+   * stored vectors still match their content are skipped when the queue
+   * runs, so it is cheap to call this on every save.
+   */
+  private scheduleEmbedding(noteId: string): void {
+    this.embeddingQueue.add(noteId);
+    if (this.embeddingTimeoutId !== null) {
+      clearTimeout(this.embeddingTimeoutId);
+    }
+    this.embeddingTimeoutId = window.setTimeout(() => {
+      this.embeddingTimeoutId = null;
+      this.processEmbeddingQueue().catch(console.error);
+    }, EMBEDDING_DELAY_MS);
+  }
+
+  private async processEmbeddingQueue(): Promise<void> {
+    if (this.embeddingRunning) return;
+    this.embeddingRunning = true;
+    try {
+      for (const noteId of this.embeddingQueue) {
+        this.embeddingQueue.delete(noteId);
+        const note = this.notes.find((n) => n.id === noteId);
+        if (!note || this.embeddingIndex.isCurrent(note)) continue;
+        try {
+          const record = await embedNote(this.genAI, note);
+          // The note may have been deleted while it was being embedded.
+          if (!this.notes.some((n) => n.id === noteId)) continue;
+          this.embeddingIndex.set(record);
+          await saveEmbeddingRecord(record);
+        } catch (error) {
+          // Try again with the next change rather than hammering the API
+          // while it is failing, e.g. when offline.
+          console.warn('Could not embed note:', error);
+          this.embeddingQueue.add(noteId);
+          break;
+        } finally {
+          this.renderChatStatus();
+        }
+      }
+    } finally {
+      this.embeddingRunning = false;
+    }
+  }
+
+  private removeEmbeddings(noteIds: string[]): void {
+    noteIds.forEach((noteId) => {
+      this.embeddingQueue.delete(noteId);
+      this.embeddingIndex.remove(noteId);
+    });
+  }
+
+  /**
+   * Applies the sidebar's search query, date range and sort order. Returns
+   * the notes to list along with the query used to highlight them.
+   */
+  private getVisibleNotes(): {notes: Note[]; query: string} {
+    const query = this.searchInput.value.trim();
+    const from = this.dateFromInput.value
+      ? new Date(`${this.dateFromInput.value}T00:00:00`).getTime()
+      : -Infinity;
+    // The end date is inclusive, so filter up to the start of the next day.
+    const to = this.dateToInput.value
+      ? new Date(`${this.dateToInput.value}T00:00:00`).getTime() + 86400000
+      : Infinity;
+    const tag = this.tagFilterSelect.value;
+    const inRange = (note: Note) =>
+      note.timestamp >= from &&
+      note.timestamp < to &&
+      (!tag || !!note.tags?.includes(tag));
+
+    let notes: Note[];
+    const sort = this.sortSelect.value as NoteSort;
+    if (query) {
+      const byId = new Map(this.notes.map((note) => [note.id, note]));
+      notes = this.searchIndex
+        .search(query)
+        .map((result) => byId.get(result.id))
+        .filter((note): note is Note => !!note && inRange(note));
+    } else {
+      notes = this.notes.filter(inRange);
+    }
+    if (sort === 'newest' || (sort === 'relevance' && !query)) {
+      notes.sort((a, b) => b.timestamp - a.timestamp);
+    } else if (sort === 'oldest') {
+      notes.sort((a, b) => a.timestamp - b.timestamp);
+    } else if (sort === 'title') {
+      notes.sort((a, b) =>
+        (a.title || '').localeCompare(b.title || '', undefined, {
+          sensitivity: 'base',
+        }),
+      );
+    }
+    return {notes, query};
+  }
+
+  private appendHighlighted(
+    parent: HTMLElement,
+    text: string,
+    query: string,
+  ): void {
+    highlightMatches(text, query).forEach((part) => {
+      if (part.match) {
+        const mark = document.createElement('mark');
+        mark.textContent = part.text;
+        parent.appendChild(mark);
+      } else {
+        parent.appendChild(document.createTextNode(part.text));
+      }
+    });
+  }
+
+  private renderSidebar(): void {
+    this.renderTagFilterOptions();
+    this.notesList.innerHTML = '';
+    const {notes, query} = this.getVisibleNotes();
+    const filtered =
+      !!query ||
+      !!this.dateFromInput.value ||
+      !!this.dateToInput.value ||
+      !!this.tagFilterSelect.value;
+    this.searchSummary.classList.toggle('hidden', !filtered);
+    this.searchSummary.textContent = `${notes.length} of ${this.notes.length} note${this.notes.length === 1 ? '' : 's'}`;
+    if (filtered && notes.length === 0) {
+      const empty = document.createElement('li');
+      empty.className = 'notes-list-empty';
+      empty.textContent = 'No matching notes';
+      this.notesList.appendChild(empty);
+    }
+
+    // Filtered results are listed flat; otherwise notes sit in their folders.
+    if (filtered) {
+      notes.forEach((note) =>
+        this.notesList.appendChild(this.createNoteItem(note, query)),
+      );
+    } else {
+      this.renderFolderContents(this.notesList, null, notes);
+    }
+    this.updateSelectionBar();
+  }
+
+  private createNoteItem(note: Note, query: string): HTMLLIElement {
+    const li = document.createElement('li');
+    li.className = 'note-item';
+    li.dataset.noteId = note.id;
+    if (this.currentNote && note.id === this.currentNote.id) {
+      li.classList.add('active');
+    }
+
+    const titleDiv = document.createElement('div');
+    titleDiv.className = 'note-item-title';
+    this.appendHighlighted(titleDiv, note.title, query);
+
+    const snippetDiv = document.createElement('div');
+    snippetDiv.className = 'note-item-snippet';
+    snippetDiv.textContent = note.rawTranscription.substring(0, 50) + '...';
+    if (note.pending) {
+      li.classList.add('pending');
+      snippetDiv.classList.add('note-item-pending');
+      snippetDiv.textContent =
+        this.processingNoteId === note.id
+          ? 'Processing...'
+          : 'Waiting for network';
+    } else if (note.failure) {
+      li.classList.add('failed');
+      snippetDiv.classList.add('note-item-failure');
+      snippetDiv.textContent = `${
+        note.failure.step === 'transcription' ? 'Transcription' : 'Polishing'
+      } failed: ${note.failure.message}`;
+    }
+    const matchSnippet =
+      query &&
+      findSnippet(
+        [
+          markdownToPlainText(note.polishedNote),
+          note.rawTranscription,
+          viewsToPlainText(note),
+        ],
+        query,
+      );
+    if (matchSnippet) {
+      snippetDiv.textContent = '';
+      snippetDiv.classList.add('search-snippet');
+      this.appendHighlighted(snippetDiv, matchSnippet, query);
+    }
+
+    const selectBox = document.createElement('input');
+    selectBox.type = 'checkbox';
+    selectBox.className = 'note-item-select';
+    selectBox.title = 'Select note';
+    selectBox.checked = this.selectedNoteIds.has(note.id);
+    li.classList.toggle('selected', selectBox.checked);
+    selectBox.onclick = (e) => e.stopPropagation();
+    selectBox.onchange = () => {
+      if (selectBox.checked) this.selectedNoteIds.add(note.id);
+      else this.selectedNoteIds.delete(note.id);
+      li.classList.toggle('selected', selectBox.checked);
+      this.updateSelectionBar();
+    };
+
+    const actionsDiv = document.createElement('div');
+    actionsDiv.className = 'note-item-actions';
+    const deleteBtn = document.createElement('button');
+    deleteBtn.className = 'note-action-btn';
+    deleteBtn.title = 'Delete Note';
+    deleteBtn.innerHTML = '<i class="fas fa-trash"></i>';
+    deleteBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.deleteNote(note.id);
+    };
+
+    if (note.failure) {
+      const retryBtn = document.createElement('button');
+      retryBtn.className = 'note-action-btn';
+      retryBtn.title = `Retry ${note.failure.step}`;
+      retryBtn.innerHTML = '<i class="fas fa-rotate-right"></i>';
+      retryBtn.onclick = (e) => {
+        e.stopPropagation();
+        this.retryFailedNote(note.id).catch(console.error);
+      };
+      actionsDiv.appendChild(retryBtn);
+    }
+    actionsDiv.appendChild(deleteBtn);
+    li.appendChild(selectBox);
+    li.appendChild(titleDiv);
+    li.appendChild(snippetDiv);
+    li.appendChild(actionsDiv);
+    if (note.tags?.length) {
+      const tagsDiv = document.createElement('div');
+      tagsDiv.className = 'note-item-tags';
+      tagsDiv.textContent = note.tags.map((tag) => `#${tag}`).join(' ');
+      li.appendChild(tagsDiv);
+    }
+    li.draggable = true;
+    li.addEventListener('dragstart', (e) => {
+      // Dragging a selected note moves the whole selection.
+      const ids = this.selectedNoteIds.has(note.id)
+        ? Array.from(this.selectedNoteIds)
+        : [note.id];
+      e.dataTransfer!.setData(NOTE_DRAG_TYPE, JSON.stringify(ids));
+      e.dataTransfer!.effectAllowed = 'move';
+    });
+    li.onclick = () => {
+      this.displayNoteById(note.id);
+      this.toggleSidebar();
+    };
+    return li;
+  }
+
+  /**
+   * Appends the subfolders and notes of one folder (or of the top level when
+   * `parentId` is null). Notes whose folder no longer exists are shown at the
+   * top level.
+   */
+  private renderFolderContents(
+    container: HTMLElement,
+    parentId: string | null,
+    notes: Note[],
+  ): void {
+    getChildFolders(this.folders, parentId).forEach((folder) =>
+      container.appendChild(this.createFolderItem(folder, notes)),
+    );
+    const folderIds = new Set(this.folders.map((folder) => folder.id));
+    notes
+      .filter((note) =>
+        parentId === null
+          ? !note.folderId || !folderIds.has(note.folderId)
+          : note.folderId === parentId,
+      )
+      .forEach((note) => container.appendChild(this.createNoteItem(note, '')));
+  }
+
+  private createFolderItem(folder: Folder, notes: Note[]): HTMLLIElement {
+    const collapsed = this.collapsedFolderIds.has(folder.id);
+    const li = document.createElement('li');
+    li.className = 'folder-item';
+    li.classList.toggle('collapsed', collapsed);
+
+    const row = document.createElement('div');
+    row.className = 'folder-row';
+    row.draggable = true;
+    row.innerHTML = `<i class="fas fa-chevron-right folder-caret"></i><i class="fas ${collapsed ? 'fa-folder' : 'fa-folder-open'} folder-icon"></i>`;
+    const name = document.createElement('span');
+    name.className = 'folder-name';
+    name.textContent = folder.name;
+    const subtree = getFolderSubtreeIds(this.folders, folder.id);
+    const count = document.createElement('span');
+    count.className = 'folder-count';
+    count.textContent = String(
+      notes.filter((note) => note.folderId && subtree.has(note.folderId))
+        .length,
+    );
+
+    const actionsDiv = document.createElement('div');
+    actionsDiv.className = 'note-item-actions';
+    const actions: Array<[string, string, () => void]> = [
+      ['fa-folder-plus', 'New subfolder', () => this.createFolder(folder.id)],
+      ['fa-pen', 'Rename folder', () => this.renameFolder(folder)],
+      ['fa-trash', 'Delete folder', () => this.deleteFolder(folder)],
+    ];
+    actions.forEach(([icon, title, run]) => {
+      const button = document.createElement('button');
+      button.className = 'note-action-btn';
+      button.title = title;
+      button.innerHTML = `<i class="fas ${icon}"></i>`;
+      button.onclick = (e) => {
+        e.stopPropagation();
+        run();
+      };
+      actionsDiv.appendChild(button);
+    });
+
+    row.append(name, count, actionsDiv);
+    row.onclick = () => this.toggleFolder(folder.id);
+    row.addEventListener('dragstart', (e) => {
+      e.dataTransfer!.setData(FOLDER_DRAG_TYPE, folder.id);
+      e.dataTransfer!.effectAllowed = 'move';
+    });
+    this.makeFolderDropTarget(li, folder.id);
+
+    const children = document.createElement('ul');
+    children.className = 'folder-children';
+    if (!collapsed) this.renderFolderContents(children, folder.id, notes);
+    li.append(row, children);
+    return li;
+  }
+
+  private makeFolderDropTarget(
+    target: HTMLElement,
+    folderId: string | null,
+  ): void {
+    const accepts = (e: DragEvent) =>
+      !!e.dataTransfer &&
+      (e.dataTransfer.types.includes(NOTE_DRAG_TYPE) ||
+        e.dataTransfer.types.includes(FOLDER_DRAG_TYPE));
+    target.addEventListener('dragover', (e) => {
+      if (!accepts(e)) return;
+      // Nested folders handle the event before their parents.
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer!.dropEffect = 'move';
+      target.classList.add('drop-target');
+    });
+    target.addEventListener('dragleave', (e) => {
+      if (!target.contains(e.relatedTarget as Node)) {
+        target.classList.remove('drop-target');
+      }
+    });
+    target.addEventListener('drop', (e) => {
+      target.classList.remove('drop-target');
+      if (!accepts(e)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      const noteIds = e.dataTransfer!.getData(NOTE_DRAG_TYPE);
+      const draggedFolderId = e.dataTransfer!.getData(FOLDER_DRAG_TYPE);
+      if (noteIds) this.moveNotes(JSON.parse(noteIds), folderId);
+      else if (draggedFolderId) this.moveFolder(draggedFolderId, folderId);
+    });
+  }
+
+  private initFolders(): void {
+    try {
+      const saved = JSON.parse(
+        localStorage.getItem('collapsedFolders') || '[]',
+      );
+      if (Array.isArray(saved)) this.collapsedFolderIds = new Set(saved);
+    } catch (e) {
+      this.collapsedFolderIds = new Set();
+    }
+  }
+
+  private toggleFolder(folderId: string, collapsed?: boolean): void {
+    const collapse = collapsed ?? !this.collapsedFolderIds.has(folderId);
+    if (collapse) this.collapsedFolderIds.add(folderId);
+    else this.collapsedFolderIds.delete(folderId);
+    localStorage.setItem(
+      'collapsedFolders',
+      JSON.stringify(Array.from(this.collapsedFolderIds)),
+    );
+    this.renderSidebar();
+  }
+
+  private persistFolder(folder: Folder): void {
+    saveFolderRecord(folder).catch((error) =>
+      this.reportStorageError('Could not save folder', error),
+    );
+  }
+
+  private createFolder(parentId: string | null): Folder | null {
+    const name = prompt('Folder name:')?.trim();
+    if (!name) return null;
+    const folder: Folder = {id: `folder_${Date.now()}`, name, parentId};
+    this.folders.push(folder);
+    this.persistFolder(folder);
+    if (parentId) this.collapsedFolderIds.delete(parentId);
+    this.renderSidebar();
+    this.renderFolderOptions();
+    return folder;
+  }
+
+  private renameFolder(folder: Folder): void {
+    const name = prompt('Rename folder:', folder.name)?.trim();
+    if (!name || name === folder.name) return;
+    folder.name = name;
+    this.persistFolder(folder);
+    this.renderSidebar();
+    this.renderFolderOptions();
+  }
+
+  /** Deletes a folder, moving its notes and subfolders up one level. */
+  private deleteFolder(folder: Folder): void {
+    const parent = this.folders.find((f) => f.id === folder.parentId);
+    const destination = parent ? `"${parent.name}"` : 'the top level';
+    if (
+      !confirm(
+        `Delete the folder "${folder.name}"? Its notes and subfolders will move to ${destination}.`,
+      )
+    ) {
+      return;
+    }
+    this.folders.forEach((child) => {
+      if (child.parentId !== folder.id) return;
+      child.parentId = folder.parentId;
+      this.persistFolder(child);
+    });
+    this.moveNotes(
+      this.notes
+        .filter((note) => note.folderId === folder.id)
+        .map((note) => note.id),
+      folder.parentId,
+    );
+    this.folders = this.folders.filter((f) => f.id !== folder.id);
+    this.collapsedFolderIds.delete(folder.id);
+    deleteFolderRecord(folder.id).catch((error) =>
+      this.reportStorageError('Could not delete folder', error),
+    );
+    this.renderSidebar();
+    this.renderFolderOptions();
+  }
+
+  private moveNotes(noteIds: string[], folderId: string | null): void {
+    const ids = new Set(noteIds);
+    let moved = 0;
+    this.notes.forEach((note) => {
+      if (!ids.has(note.id) || (note.folderId ?? null) === folderId) return;
+      if (folderId) note.folderId = folderId;
+      else delete note.folderId;
+      note.updatedAt = Date.now();
+      this.persistNote(note);
+      moved++;
+    });
+    if (moved === 0) return;
+    if (folderId) this.collapsedFolderIds.delete(folderId);
+    this.renderSidebar();
+    this.renderFolderOptions();
+    const destination = folderId
+      ? `"${getFolderPath(this.folders, folderId)}"`
+      : 'the top level';
+    this.recordingStatus.textContent = `Moved ${moved} note${moved === 1 ? '' : 's'} to ${destination}.`;
+  }
+
+  private moveFolder(folderId: string, parentId: string | null): void {
+    const folder = this.folders.find((f) => f.id === folderId);
+    if (!folder || folder.parentId === parentId) return;
+    if (parentId && getFolderSubtreeIds(this.folders, folderId).has(parentId)) {
+      this.recordingStatus.textContent =
+        'A folder cannot be moved into itself.';
+      return;
+    }
+    folder.parentId = parentId;
+    this.persistFolder(folder);
+    if (parentId) this.collapsedFolderIds.delete(parentId);
+    this.renderSidebar();
+    this.renderFolderOptions();
+  }
+
+  private showMoveMenu(anchor: HTMLElement, noteIds: string[]): void {
+    if (noteIds.length === 0) return;
+    this.moveMenu.innerHTML = '';
+    const addItem = (label: string, depth: number, run: () => void) => {
+      const item = document.createElement('button');
+      item.className = 'popover-menu-item';
+      item.style.paddingLeft = `${12 + depth * 14}px`;
+      item.textContent = label;
+      item.onclick = () => {
+        this.hideMoveMenu();
+        run();
+      };
+      this.moveMenu.appendChild(item);
+    };
+    addItem('Top level (no folder)', 0, () => this.moveNotes(noteIds, null));
+    flattenFolderTree(this.folders).forEach(({folder, depth}) =>
+      addItem(folder.name, depth, () => this.moveNotes(noteIds, folder.id)),
+    );
+    addItem('New folder…', 0, () => {
+      const folder = this.createFolder(null);
+      if (folder) this.moveNotes(noteIds, folder.id);
+    });
+    const rect = anchor.getBoundingClientRect();
+    this.moveMenu.style.top = `${rect.bottom + 6}px`;
+    this.moveMenu.style.left = `${Math.max(8, Math.min(rect.left, window.innerWidth - 240))}px`;
+    this.moveMenu.classList.remove('hidden');
+  }
+
+  private hideMoveMenu(): void {
+    this.moveMenu.classList.add('hidden');
+  }
+
+  /** Fills the note header's folder picker for the current note. */
+  private renderFolderOptions(): void {
+    this.folderSelect.innerHTML = '';
+    const addOption = (value: string, label: string) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      this.folderSelect.appendChild(option);
+    };
+    addOption('', 'No folder');
+    flattenFolderTree(this.folders).forEach(({folder, depth}) =>
+      addOption(folder.id, `${'\u00a0\u00a0'.repeat(depth)}${folder.name}`),
+    );
+    addOption(NEW_FOLDER_OPTION, 'New folder…');
+    const folderId = this.currentNote?.folderId;
+    this.folderSelect.value =
+      folderId && this.folders.some((f) => f.id === folderId) ? folderId : '';
+  }
+
+  private renderNoteLanguage(note: Note): void {
+    this.noteLanguage.textContent = note.language ?? '';
+    this.noteLanguage.classList.toggle('hidden', !note.language);
+  }
+
+  /** Fills the note header's transcriber picker for the current note. */
+  private renderTranscriberOptions(): void {
+    this.transcriberSelect.innerHTML = '';
+    this.transcriberSelect.appendChild(
+      new Option(
+        `Default (${TRANSCRIBER_LABELS[this.settings.transcriber]})`,
+        '',
+      ),
+    );
+    Object.entries(TRANSCRIBER_LABELS).forEach(([id, label]) =>
+      this.transcriberSelect.appendChild(new Option(label, id)),
+    );
+    this.transcriberSelect.value = this.currentNote?.transcriber ?? '';
+  }
+
+  private handleTranscriberChange(): void {
+    const note = this.currentNote;
+    if (!note) return;
+    const id = this.transcriberSelect.value;
+    if (isTranscriberId(id)) note.transcriber = id;
+    else delete note.transcriber;
+    this.saveOrUpdateCurrentNote();
+  }
+
+  /** The note's own transcriber, or the default one. */
+  private getTranscriber(note?: Note | null): Transcriber {
+    return createTranscriber(
+      this.settings,
+      this.genAI,
+      this.glossary,
+      note?.transcriber,
+    );
+  }
+
+  private handleFolderChange(): void {
+    const note = this.currentNote;
+    if (!note) return;
+    let folderId: string | null = this.folderSelect.value || null;
+    if (folderId === NEW_FOLDER_OPTION) {
+      folderId = this.createFolder(null)?.id ?? null;
+      if (!folderId) {
+        this.renderFolderOptions();
+        return;
+      }
+    }
+    if (folderId) note.folderId = folderId;
+    else delete note.folderId;
+    this.saveOrUpdateCurrentNote();
+    this.renderFolderOptions();
+  }
+
+  private renderTagFilterOptions(): void {
+    const tags = collectTags(this.notes);
+    const selected = this.tagFilterSelect.value;
+    this.tagFilterSelect.innerHTML = '';
+    this.tagOptions.innerHTML = '';
+    const all = document.createElement('option');
+    all.value = '';
+    all.textContent = 'All tags';
+    this.tagFilterSelect.appendChild(all);
+    tags.forEach(([tag, count]) => {
+      const option = document.createElement('option');
+      option.value = tag;
+      option.textContent = `#${tag} (${count})`;
+      this.tagFilterSelect.appendChild(option);
+      const suggestion = document.createElement('option');
+      suggestion.value = tag;
+      this.tagOptions.appendChild(suggestion);
+    });
+    this.tagFilterSelect.value = tags.some(([tag]) => tag === selected)
+      ? selected
+      : '';
+  }
+
+  /** Shows the current note's tags and any pending Gemini suggestions. */
+  private renderNoteTags(): void {
+    const note = this.currentNote;
+    this.noteTagsList.innerHTML = '';
+    this.tagSuggestions.innerHTML = '';
+    if (!note) return;
+    (note.tags ?? []).forEach((tag) => {
+      const chip = document.createElement('span');
+      chip.className = 'tag-chip';
+      chip.textContent = `#${tag}`;
+      const remove = document.createElement('button');
+      remove.className = 'tag-chip-remove';
+      remove.title = `Remove #${tag}`;
+      remove.innerHTML = '<i class="fas fa-times"></i>';
+      remove.onclick = () => this.removeTag(tag);
+      chip.appendChild(remove);
+      this.noteTagsList.appendChild(chip);
+    });
+
+    const suggested = note.suggestedTags ?? [];
+    this.tagSuggestions.classList.toggle('hidden', suggested.length === 0);
+    if (suggested.length === 0) return;
+    const label = document.createElement('span');
+    label.className = 'tag-suggestions-label';
+    label.textContent = 'Suggested:';
+    this.tagSuggestions.appendChild(label);
+    suggested.forEach((tag) => {
+      const chip = document.createElement('button');
+      chip.className = 'tag-chip suggested';
+      chip.title = `Add #${tag}`;
+      chip.textContent = `+${tag}`;
+      chip.onclick = () => this.addTags([note], [tag]);
+      this.tagSuggestions.appendChild(chip);
+    });
+    const dismiss = document.createElement('button');
+    dismiss.className = 'tag-chip-remove';
+    dismiss.title = 'Dismiss suggestions';
+    dismiss.innerHTML = '<i class="fas fa-times"></i>';
+    dismiss.onclick = () => {
+      delete note.suggestedTags;
+      this.saveTaggedNote(note);
+      this.renderNoteTags();
+    };
+    this.tagSuggestions.appendChild(dismiss);
+  }
+
+  private saveTaggedNote(note: Note): void {
+    if (note === this.currentNote) this.saveOrUpdateCurrentNote();
+    else this.persistNote(note);
+  }
+
+  private addTags(notes: Note[], tags: string[]): void {
+    if (tags.length === 0) return;
+    notes.forEach((note) => {
+      const merged = uniqueTags([...(note.tags ?? []), ...tags]);
+      note.suggestedTags = note.suggestedTags?.filter(
+        (tag) => !merged.includes(tag),
+      );
+      if (note.suggestedTags?.length === 0) delete note.suggestedTags;
+      note.tags = merged;
+      note.updatedAt = Date.now();
+      this.saveTaggedNote(note);
+    });
+    this.renderNoteTags();
+    this.renderSidebar();
+  }
+
+  private removeTag(tag: string): void {
+    const note = this.currentNote;
+    if (!note?.tags) return;
+    note.tags = note.tags.filter((t) => t !== tag);
+    this.saveTaggedNote(note);
+    this.renderNoteTags();
+    this.renderSidebar();
+  }
+
+  private addTagsFromInput(): void {
+    const tags = parseTagInput(this.tagInput.value);
+    this.tagInput.value = '';
+    if (this.currentNote) this.addTags([this.currentNote], tags);
+  }
+
+  private tagSelectedNotes(): void {
+    const notes = this.getSelectedNotes();
+    if (notes.length === 0) return;
+    const input = prompt(
+      `Add tags to ${notes.length} selected note${notes.length === 1 ? '' : 's'} (comma separated):`,
+    );
+    const tags = parseTagInput(input ?? '');
+    if (tags.length === 0) return;
+    this.addTags(notes, tags);
+    this.recordingStatus.textContent = `Tagged ${notes.length} note${notes.length === 1 ? '' : 's'}.`;
+  }
+
+  /**
+   * Asks Gemini for subject tags once a note has been polished. Suggestions
+   * are kept on the note until the user adds or dismisses them.
+   */
+  private async suggestTags(note: Note): Promise<void> {
+    const existing = collectTags(this.notes).map(([tag]) => tag);
+    const response = await this.genAI.models.generateContent({
+      model: this.settings.polishingModel,
+      contents: [{text: buildTagPrompt(note.polishedNote, existing)}],
+      config: {
+        temperature: this.settings.temperature,
+        responseMimeType: 'application/json',
+        responseSchema: TAG_SUGGESTION_SCHEMA,
+      },
+    });
+    const suggestions = parseTagSuggestions(response.text || '[]').filter(
+      (tag) => !note.tags?.includes(tag),
+    );
+    if (suggestions.length === 0) return;
+    note.suggestedTags = suggestions;
+    if (this.notes.includes(note)) this.persistNote(note);
+    if (note === this.currentNote) this.renderNoteTags();
+  }
+
+  private getSelectedNotes(): Note[] {
+    return this.notes.filter((note) => this.selectedNoteIds.has(note.id));
+  }
+
+  private updateSelectionBar(): void {
+    // Drop ids of notes that have since been deleted.
+    const ids = new Set(this.notes.map((note) => note.id));
+    this.selectedNoteIds.forEach((id) => {
+      if (!ids.has(id)) this.selectedNoteIds.delete(id);
+    });
+    const count = this.selectedNoteIds.size;
+    this.selectionBar.classList.toggle('hidden', count === 0);
+    this.notesList.classList.toggle('selecting', count > 0);
+    this.selectionCount.textContent = `${count} selected`;
+  }
+
+  private clearSelection(): void {
+    this.selectedNoteIds.clear();
+    this.renderSidebar();
+  }
+
+  private showExportMenu(anchor: HTMLElement, notes: Note[]): void {
+    if (notes.length === 0) {
+      this.recordingStatus.textContent = 'No notes to export.';
+      return;
+    }
+    this.exportMenu.innerHTML = '';
+    EXPORT_FORMATS.forEach(({format, label}) => {
+      const item = document.createElement('button');
+      item.className = 'popover-menu-item';
+      item.textContent = label;
+      // Subtitles belong to one recording, and browsers block a download
+      // per note, so they are exported one note at a time.
+      if ((format === 'srt' || format === 'vtt') && notes.length > 1) {
+        item.disabled = true;
+        item.title = 'Subtitles can only be exported for one note at a time';
+      } else if (
+        (format === 'srt' || format === 'vtt') &&
+        !hasTiming(notes[0])
+      ) {
+        item.disabled = true;
+        item.title = 'No timing data for this transcript';
+      }
+      item.onclick = () => {
+        this.hideExportMenu();
+        this.exportNotes(notes, format).catch((error) => {
+          console.error('Error exporting notes:', error);
+          this.recordingStatus.textContent = 'Error exporting notes.';
+        });
+      };
+      this.exportMenu.appendChild(item);
+    });
+    const rect = anchor.getBoundingClientRect();
+    this.exportMenu.style.top = `${rect.bottom + 6}px`;
+    this.exportMenu.style.left = `${Math.max(8, Math.min(rect.left, window.innerWidth - 240))}px`;
+    this.exportMenu.classList.remove('hidden');
+  }
+
+  private hideExportMenu(): void {
+    this.exportMenu.classList.add('hidden');
+  }
+
+  private async exportNotes(
+    notes: Note[],
+    format: ExportFormat,
+  ): Promise<void> {
+    const single = notes.length === 1;
+    const baseName = single
+      ? safeFilename(notes[0].title)
+      : `notes-${new Date().toISOString().slice(0, 10)}`;
+    switch (format) {
+      case 'markdown':
+        downloadFile(`${baseName}.md`, notesToMarkdown(notes), 'text/markdown');
+        break;
+      case 'html':
+        downloadFile(`${baseName}.html`, notesToHtml(notes), 'text/html');
+        break;
+      case 'text':
+        downloadFile(`${baseName}.txt`, notesToText(notes), 'text/plain');
+        break;
+      case 'srt':
+        if (hasTiming(notes[0])) {
+          downloadFile(
+            `${baseName}.srt`,
+            segmentsToSrt(notes[0].segments!),
+            'application/x-subrip',
+          );
+        }
+        break;
+      case 'vtt':
+        if (hasTiming(notes[0])) {
+          downloadFile(
+            `${baseName}.vtt`,
+            segmentsToVtt(notes[0].segments!),
+            'text/vtt',
+          );
+        }
+        break;
+      case 'json': {
+        this.recordingStatus.textContent = 'Preparing backup...';
+        const audio = new Map<string, BackupAudio[]>();
+        for (const note of notes) {
+          if (!note.hasAudio) continue;
+          try {
+            const parts = await loadAudioParts(
+              note.id,
+              note.audioParts?.length ?? 0,
+            );
+            const backupParts: BackupAudio[] = [];
+            for (const part of parts) {
+              backupParts.push({
+                mimeType: part.type,
+                data: await blobToBase64(part),
+              });
+            }
+            if (backupParts.length) audio.set(note.id, backupParts);
+          } catch (error) {
+            console.warn(`Backup skipped audio for ${note.id}:`, error);
+          }
+        }
+        downloadFile(
+          `${single ? baseName : 'voice-notes-backup'}-${new Date().toISOString().slice(0, 10)}.json`,
+          createBackup(notes, audio, this.folders),
+          'application/json',
+        );
+        break;
+      }
+    }
+    this.recordingStatus.textContent = `Exported ${notes.length} note${single ? '' : 's'}.`;
+  }
+
+  private openModal(modal: HTMLElement): void {
+    modal.classList.remove('hidden');
+  }
+
+  private closeModal(modal: HTMLElement): void {
+    modal.classList.add('hidden');
+  }
+
+  private openChatDialog(): void {
+    this.renderChatStatus();
+    this.openModal(this.chatDialog);
+    this.chatInput.focus();
+    // Index anything still waiting right away instead of after the delay.
+    if (this.embeddingTimeoutId !== null) {
+      clearTimeout(this.embeddingTimeoutId);
+      this.embeddingTimeoutId = null;
+    }
+    this.processEmbeddingQueue().catch(console.error);
+  }
+
+  private renderChatStatus(): void {
+    if (this.chatController) return;
+    const pending = this.notes.filter(
+      (note) => !this.embeddingIndex.isCurrent(note),
+    ).length;
+    const total = this.notes.length;
+    this.chatStatus.textContent =
+      pending > 0
+        ? `Indexed ${total - pending} of ${total} notes...`
+        : `Searching ${total} note${total === 1 ? '' : 's'}`;
+  }
+
+  private clearChat(): void {
+    this.chatController?.abort();
+    this.chatTurns = [];
+    this.chatMessages.innerHTML = '';
+    this.chatInput.focus();
+  }
+
+  /**
+   * Answers the question in the chat input from the most similar note
+   * chunks, streaming the answer with its citations into the chat.
+   */
+  private async askNotes(): Promise<void> {
+    const question = this.chatInput.value.trim();
+    if (!question) return;
+    this.chatInput.value = '';
+    const history = this.chatTurns.slice();
+    const userTurn: ChatTurn = {role: 'user', text: question};
+    this.chatTurns.push(userTurn);
+    this.appendChatMessage(userTurn);
+    const answerTurn: ChatTurn = {role: 'model', text: ''};
+    const answerElement = this.appendChatMessage(answerTurn);
+    answerElement.textContent = '...';
+
+    const controller = new AbortController();
+    this.chatController = controller;
+    this.sendChatButton.textContent = 'Stop';
+    const signal = controller.signal;
+    const showPartial = throttleToAnimationFrame((text: string) => {
+      if (signal.aborted) return;
+      answerTurn.text = text;
+      this.renderChatAnswer(answerElement, answerTurn);
+    });
+    try {
+      this.chatStatus.textContent = 'Searching notes...';
+      const vector = await abortable(embedQuery(this.genAI, question), signal);
+      const sources = selectSources(
+        this.embeddingIndex.search(vector, CHAT_RETRIEVAL_LIMIT),
+        this.notes,
+      );
+      answerTurn.sources = sources;
+      this.chatStatus.textContent = sources.length
+        ? `Answering from ${sources.length} note${sources.length === 1 ? '' : 's'}...`
+        : 'No matching notes found.';
+      const answer = await streamGeneratedText(
+        this.genAI,
+        {
+          model: this.settings.polishingModel,
+          contents: [{text: buildChatPrompt(question, sources, history)}],
+          config: {temperature: this.settings.temperature},
+        },
+        signal,
+        showPartial,
+      );
+      showPartial.cancel();
+      answerTurn.text = answer.trim() || 'No answer was returned.';
+    } catch (error) {
+      showPartial.cancel();
+      if (!signal.aborted) console.error('Error answering question:', error);
+      answerTurn.text = signal.aborted
+        ? `${answerTurn.text}\n\n*Stopped.*`.trim()
+        : 'Could not answer the question. Please try again.';
+    } finally {
+      // The chat may have been cleared while answering.
+      if (answerElement.isConnected) this.chatTurns.push(answerTurn);
+      this.renderChatAnswer(answerElement, answerTurn);
+      if (this.chatController === controller) this.chatController = null;
+      this.sendChatButton.textContent = 'Ask';
+      this.renderChatStatus();
+    }
+  }
+
+  private appendChatMessage(turn: ChatTurn): HTMLDivElement {
+    const message = document.createElement('div');
+    message.className = `chat-message ${turn.role}`;
+    if (turn.role === 'user') message.textContent = turn.text;
+    else this.renderChatAnswer(message, turn);
+    this.chatMessages.appendChild(message);
+    this.chatMessages.scrollTop = this.chatMessages.scrollHeight;
+    return message;
+  }
+
+  /**
+   * Renders an answer's markdown and turns its [n] citations, plus the list
+   * of sources below it, into links that open the cited note.
+   */
+  private renderChatAnswer(element: HTMLElement, turn: ChatTurn): void {
+    const sources = turn.sources ?? [];
+    element.innerHTML = renderMarkdown(turn.text);
+    const byNumber = new Map(sources.map((source) => [source.number, source]));
+    const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+    const textNodes: Text[] = [];
+    while (walker.nextNode()) textNodes.push(walker.currentNode as Text);
+    textNodes.forEach((node) => {
+      const parts = node.data.split(/(\[\d+\])/);
+      if (parts.length === 1) return;
+      const fragment = document.createDocumentFragment();
+      parts.forEach((part) => {
+        const source = byNumber.get(Number(/^\[(\d+)\]$/.exec(part)?.[1]));
+        if (source) {
+          fragment.appendChild(
+            this.createCitationLink(source, part, 'chat-citation'),
+          );
+        } else if (part) {
+          fragment.appendChild(document.createTextNode(part));
+        }
+      });
+      node.replaceWith(fragment);
+    });
+
+    const cited = sources.filter((source) =>
+      turn.text.includes(`[${source.number}]`),
+    );
+    if (cited.length > 0) {
+      const list = document.createElement('ol');
+      list.className = 'chat-sources';
+      cited.forEach((source) => {
+        const item = document.createElement('li');
+        const date = new Date(source.note.timestamp).toLocaleDateString();
+        item.appendChild(
+          this.createCitationLink(
+            source,
+            `[${source.number}] ${source.note.title || 'Untitled Note'} · ${date}`,
+          ),
+        );
+        list.appendChild(item);
+      });
+      element.appendChild(list);
+    }
+    this.chatMessages.scrollTop = this.chatMessages.scrollHeight;
+  }
+
+  private createCitationLink(
+    source: ChatSource,
+    text: string,
+    className = '',
+  ): HTMLAnchorElement {
+    const link = document.createElement('a');
+    link.href = '#';
+    link.className = className;
+    link.textContent = text;
+    link.title = source.note.title || 'Untitled Note';
+    link.addEventListener('click', (e) => {
+      e.preventDefault();
+      if (!this.notes.some((note) => note.id === source.note.id)) {
+        this.chatStatus.textContent = 'That note has been deleted.';
+        return;
+      }
+      this.closeModal(this.chatDialog);
+      this.displayNoteById(source.note.id);
+    });
+    return link;
+  }
+
+  private openStudyDialog(): void {
+    const note = this.currentNote;
+    if (!note || !note.polishedNote.trim()) {
+      this.recordingStatus.textContent =
+        'Record or open a polished note to study from.';
+      return;
+    }
+    if (this.studyNote !== note) this.studyController?.abort();
+    this.studyNote = note;
+    this.studyStatus.textContent = note.study
+      ? `Generated ${new Date(note.study.generatedAt).toLocaleString()}`
+      : '';
+    this.renderStudyMaterial();
+    this.openModal(this.studyDialog);
+  }
+
+  private saveStudyNote(): void {
+    const note = this.studyNote;
+    if (!note) return;
+    note.updatedAt = Date.now();
+    if (this.notes.some((n) => n.id === note.id)) this.persistNote(note);
+  }
+
+  private async generateStudyMaterial(): Promise<void> {
+    const note = this.studyNote;
+    if (!note) return;
+    const existing = note.study;
+    if (
+      existing &&
+      (existing.cards.length > 0 || existing.questions.length > 0) &&
+      !confirm('Replace the existing cards and questions for this note?')
+    ) {
+      return;
+    }
+    this.flushAutosave();
+    const controller = new AbortController();
+    const signal = controller.signal;
+    this.studyController = controller;
+    this.generateStudyButton.textContent = 'Stop';
+    this.studyStatus.textContent = 'Generating cards and questions...';
+    try {
+      const response = await abortable<{text?: string}>(
+        this.genAI.models.generateContent({
+          model: this.settings.polishingModel,
+          contents: [{text: buildStudyPrompt(note.polishedNote)}],
+          config: {
+            temperature: this.settings.temperature,
+            responseMimeType: 'application/json',
+            responseSchema: STUDY_SCHEMA,
+          },
+        }),
+        signal,
+      );
+      const study = parseStudyMaterial(response.text || '');
+      if (study.cards.length === 0 && study.questions.length === 0) {
+        this.studyStatus.textContent = 'Nothing was generated. Try again.';
+        return;
+      }
+      note.study = study;
+      this.saveStudyNote();
+      this.renderStudyMaterial();
+      this.studyStatus.textContent = `Generated ${study.cards.length} cards and ${study.questions.length} questions.`;
+    } catch (error) {
+      if (signal.aborted) {
+        this.studyStatus.textContent = 'Generation stopped.';
+      } else {
+        console.error('Error generating study material:', error);
+        this.studyStatus.textContent =
+          'Error generating study material. Please try again.';
+      }
+    } finally {
+      // A generation for another note may have started since.
+      if (this.studyController === controller) {
+        this.studyController = null;
+        this.generateStudyButton.textContent = 'Generate';
+      }
+    }
+  }
+
+  private addStudyCard(): void {
+    const note = this.studyNote;
+    if (!note) return;
+    if (!note.study) {
+      note.study = {cards: [], questions: [], generatedAt: Date.now()};
+    }
+    note.study.cards.push({type: 'basic', front: '', back: ''});
+    this.renderStudyMaterial();
+    this.studyContent
+      .querySelector<HTMLTextAreaElement>('.study-card:last-of-type textarea')
+      ?.focus();
+  }
+
+  private exportStudyToAnki(): void {
+    const note = this.studyNote;
+    const study = note?.study;
+    if (!note || !study || study.cards.length + study.questions.length === 0) {
+      this.studyStatus.textContent = 'Generate or add some cards first.';
+      return;
+    }
+    downloadFile(
+      `${safeFilename(note.title)}-anki.txt`,
+      studyToAnkiText(study, note.title),
+      'text/plain',
+    );
+    this.studyStatus.textContent =
+      'Exported. In Anki use File > Import and choose the downloaded file.';
+  }
+
+  private createStudyTextarea(
+    value: string,
+    placeholder: string,
+    onChange: (value: string) => void,
+  ): HTMLTextAreaElement {
+    const textarea = document.createElement('textarea');
+    textarea.className = 'form-input';
+    textarea.value = value;
+    textarea.placeholder = placeholder;
+    textarea.rows = 2;
+    textarea.addEventListener('change', () => {
+      onChange(textarea.value);
+      this.saveStudyNote();
+    });
+    return textarea;
+  }
+
+  private createStudyDeleteButton(onDelete: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'note-action-btn';
+    button.title = 'Delete';
+    button.innerHTML = '<i class="fas fa-trash"></i>';
+    button.onclick = () => {
+      onDelete();
+      this.saveStudyNote();
+      this.renderStudyMaterial();
+    };
+    return button;
+  }
+
+  private renderStudyMaterial(): void {
+    this.studyContent.innerHTML = '';
+    const study: StudyMaterial = this.studyNote?.study ?? {
+      cards: [],
+      questions: [],
+      generatedAt: 0,
+    };
+    if (study.cards.length === 0 && study.questions.length === 0) {
+      const empty = document.createElement('p');
+      empty.className = 'modal-empty';
+      empty.textContent =
+        'Generate flashcards and practice questions from this note, then review and edit them here before exporting to Anki.';
+      this.studyContent.appendChild(empty);
+      return;
+    }
+
+    const cardsHeading = document.createElement('h4');
+    cardsHeading.textContent = `Flashcards (${study.cards.length})`;
+    this.studyContent.appendChild(cardsHeading);
+    study.cards.forEach((card, index) => {
+      const row = document.createElement('div');
+      row.className = 'study-card';
+
+      const header = document.createElement('div');
+      header.className = 'study-item-header';
+      const typeSelect = document.createElement('select');
+      typeSelect.className = 'form-select';
+      typeSelect.innerHTML =
+        '<option value="cloze">Cloze</option><option value="basic">Basic</option>';
+      typeSelect.value = card.type;
+      typeSelect.onchange = () => {
+        card.type = typeSelect.value as 'cloze' | 'basic';
+        this.saveStudyNote();
+        this.renderStudyMaterial();
+      };
+      header.appendChild(typeSelect);
+      header.appendChild(
+        this.createStudyDeleteButton(() => study.cards.splice(index, 1)),
+      );
+
+      row.appendChild(header);
+      row.appendChild(
+        this.createStudyTextarea(
+          card.front,
+          card.type === 'cloze' ? 'Text with {{c1::deletion}}' : 'Front',
+          (value) => (card.front = value),
+        ),
+      );
+      row.appendChild(
+        this.createStudyTextarea(
+          card.back,
+          card.type === 'cloze' ? 'Extra (optional)' : 'Back',
+          (value) => (card.back = value),
+        ),
+      );
+      this.studyContent.appendChild(row);
+    });
+
+    const questionsHeading = document.createElement('h4');
+    questionsHeading.textContent = `Practice questions (${study.questions.length})`;
+    this.studyContent.appendChild(questionsHeading);
+    study.questions.forEach((question, index) => {
+      const row = document.createElement('div');
+      row.className = 'study-question';
+
+      const header = document.createElement('div');
+      header.className = 'study-item-header';
+      const label = document.createElement('span');
+      label.textContent = `Question ${index + 1}`;
+      header.appendChild(label);
+      header.appendChild(
+        this.createStudyDeleteButton(() => study.questions.splice(index, 1)),
+      );
+      row.appendChild(header);
+      row.appendChild(
+        this.createStudyTextarea(
+          question.stem,
+          'Vignette',
+          (value) => (question.stem = value),
+        ),
+      );
+
+      question.options.forEach((option, optionIndex) => {
+        const optionRow = document.createElement('label');
+        optionRow.className = 'study-option';
+        const radio = document.createElement('input');
+        radio.type = 'radio';
+        radio.name = `question-${index}`;
+        radio.checked = optionIndex === question.answerIndex;
+        radio.title = 'Correct answer';
+        radio.onchange = () => {
+          question.answerIndex = optionIndex;
+          this.saveStudyNote();
+        };
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.className = 'form-input';
+        input.value = option;
+        input.addEventListener('change', () => {
+          question.options[optionIndex] = input.value;
+          this.saveStudyNote();
+        });
+        optionRow.appendChild(radio);
+        optionRow.appendChild(input);
+        row.appendChild(optionRow);
       });
-      const polishedText = response.text;
-      if (polishedText) {
-        this.polishedNote.innerHTML = marked.parse(polishedText);
-        this.polishedNote.classList.remove('placeholder-active');
-
-        let noteTitleSet = false;
-        const lines = polishedText.split('\n').map((l) => l.trim());
-        for (const line of lines) {
-          if (line.startsWith('#')) {
-            const title = line.replace(/^#+\s+/, '').trim();
-            if (this.editorTitle && title) {
-              this.editorTitle.textContent = title;
-              this.editorTitle.classList.remove('placeholder-active');
-              noteTitleSet = true;
-              break;
-            }
-          }
+
+      row.appendChild(
+        this.createStudyTextarea(
+          question.explanation,
+          'Explanation',
+          (value) => (question.explanation = value),
+        ),
+      );
+      this.studyContent.appendChild(row);
+    });
+  }
+
+  /**
+   * Restores notes from a backup file. Notes whose id already exists are
+   * replaced only when the backup copy was updated more recently.
+   */
+  private async importBackup(file: File): Promise<void> {
+    let backup;
+    try {
+      backup = parseBackup(await file.text());
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      this.recordingStatus.textContent =
+        error instanceof SyntaxError
+          ? 'Backup file is not valid JSON.'
+          : `Could not import backup: ${(error as Error).message}.`;
+      return;
+    }
+    const lastChange = (note: Note) => note.updatedAt ?? note.timestamp;
+    let imported = 0;
+    let keptExisting = 0;
+    try {
+      const added = backup.folders.filter(
+        (folder) => !this.folders.some((f) => f.id === folder.id),
+      );
+      this.folders.push(...added);
+      const moved = repairFolderTree(this.folders);
+      for (const folder of new Set([...added, ...moved])) {
+        await saveFolderRecord(folder);
+      }
+      for (const note of backup.notes) {
+        const index = this.notes.findIndex((n) => n.id === note.id);
+        if (index > -1 && lastChange(this.notes[index]) > lastChange(note)) {
+          keptExisting++;
+          continue;
         }
-        if (!noteTitleSet && this.editorTitle) {
-          for (const line of lines) {
-            if (line.length > 0) {
-              let potentialTitle = line.replace(
-                /^[\*_\`#\->\s\[\]\(.\d)]+/,
-                '',
-              );
-              potentialTitle = potentialTitle.trim();
-              if (potentialTitle.length > 3) {
-                const maxLength = 60;
-                this.editorTitle.textContent =
-                  potentialTitle.substring(0, maxLength) +
-                  (potentialTitle.length > maxLength ? '...' : '');
-                this.editorTitle.classList.remove('placeholder-active');
-                break;
-              }
-            }
+        const audio = backup.audio.get(note.id);
+        if (audio) {
+          // Drop parts of the audio stored here that the backup does not have.
+          if (index > -1) await deleteAudio(note.id);
+          for (const [part, blob] of audio.entries()) {
+            await saveAudio(note.id, blob, part);
           }
+        } else if (index > -1 && this.notes[index].hasAudio) {
+          // The audio stored here is kept, so the note still has it.
+          note.hasAudio = true;
+          note.audioParts = this.notes[index].audioParts;
         }
-        if (this.currentNote) this.currentNote.polishedNote = polishedText;
-        this.saveOrUpdateCurrentNote();
-        this.recordingStatus.textContent =
-          'Note polished. Ready for next recording.';
-      } else {
-        this.recordingStatus.textContent =
-          'Polishing failed or returned empty.';
+        await saveNoteRecord(note);
+        this.searchIndex.upsert(note);
+        this.scheduleEmbedding(note.id);
+        if (index > -1) this.notes[index] = note;
+        else this.notes.push(note);
+        if (this.currentNote?.id === note.id) {
+          this.currentNote = note;
+          this.displayNote(note);
+        }
+        imported++;
       }
     } catch (error) {
-      console.error('Error polishing note:', error);
-      this.recordingStatus.textContent =
-        'Error polishing note. Please try again.';
+      this.reportStorageError('Could not import backup', error);
+      return;
+    } finally {
+      this.notes.sort((a, b) => b.timestamp - a.timestamp);
+      this.renderSidebar();
+      this.renderFolderOptions();
     }
+    const details = [
+      keptExisting > 0 ? `${keptExisting} kept (newer here)` : '',
+      backup.skipped > 0 ? `${backup.skipped} unreadable` : '',
+    ]
+      .filter(Boolean)
+      .join(', ');
+    this.recordingStatus.textContent = `Imported ${imported} note${imported === 1 ? '' : 's'}${details ? ` (${details})` : ''}.`;
   }
 
-  private createNewNote(): void {
-    this.currentNote = {
-      id: `note_${Date.now()}`,
-      title: '',
-      rawTranscription: '',
-      polishedNote: '',
-      timestamp: Date.now(),
-    };
-    this.displayNote(this.currentNote);
-    this.recordingStatus.textContent = 'Ready to record';
-    if (this.isRecording) {
-      this.mediaRecorder?.stop();
-      this.isRecording = false;
-      this.recordButton.classList.remove('recording');
-    } else {
-      this.stopLiveDisplay();
-    }
-    this.renderSidebar();
+  private scheduleAutosave(pane: 'title' | 'polished' | 'raw'): void {
+    this.dirtyPanes.add(pane);
+    this.restartAutosaveTimer();
   }
 
-  private saveOrUpdateCurrentNote(): void {
-    if (!this.currentNote) return;
-    this.currentNote.title =
-      this.editorTitle.textContent?.trim() || 'Untitled Note';
-    const hasContent =
-      this.currentNote.rawTranscription.trim() ||
-      this.currentNote.polishedNote.trim();
-    if (!hasContent) return;
-
-    const noteIndex = this.notes.findIndex((n) => n.id === this.currentNote!.id);
-    if (noteIndex > -1) {
-      this.notes[noteIndex] = this.currentNote;
-    } else {
-      this.notes.unshift(this.currentNote);
-    }
-    this.saveNotesToLocalStorage();
-    this.renderSidebar();
+  private restartAutosaveTimer(): void {
+    if (this.autosaveTimeoutId !== null) clearTimeout(this.autosaveTimeoutId);
+    this.autosaveTimeoutId = null;
+    // Streamed output is saved when generation finishes, so edits made
+    // meanwhile are saved after it, from endGeneration.
+    if (this.generationController || this.dirtyPanes.size === 0) return;
+    this.autosaveTimeoutId = window.setTimeout(
+      () => this.flushAutosave(),
+      AUTOSAVE_DELAY_MS,
+    );
   }
 
-  private saveNotesToLocalStorage(): void {
-    localStorage.setItem('voiceNotes', JSON.stringify(this.notes));
+  private cancelAutosave(): void {
+    if (this.autosaveTimeoutId !== null) clearTimeout(this.autosaveTimeoutId);
+    this.autosaveTimeoutId = null;
+    this.dirtyPanes.clear();
   }
 
-  private loadNotesFromLocalStorage(): void {
-    const savedNotes = localStorage.getItem('voiceNotes');
-    if (savedNotes) {
-      this.notes = JSON.parse(savedNotes);
+  /**
+   * Copies pending edits from the editor panes into the current note and
+   * saves it. Only panes the user actually edited are read back, so an
+   * untouched polished note keeps the model's exact markdown.
+   */
+  private flushAutosave(): void {
+    if (this.dirtyPanes.size === 0) return;
+    const note = this.currentNote;
+    const dirtyPanes = new Set(this.dirtyPanes);
+    this.cancelAutosave();
+    if (!note) return;
+    if (dirtyPanes.has('polished')) {
+      note.polishedNote = this.polishedSource.value;
     }
+    // Segment edits update the note as they happen.
+    if (dirtyPanes.has('raw') && !note.segments?.length) {
+      note.rawTranscription = this.getRawTranscriptText();
+    }
+    this.saveOrUpdateCurrentNote();
+    this.recordRevision(note, 'user', 'Edited');
   }
 
-  private renderSidebar(): void {
-    this.notesList.innerHTML = '';
-    this.notes.forEach((note) => {
-      const li = document.createElement('li');
-      li.className = 'note-item';
-      li.dataset.noteId = note.id;
-      if (this.currentNote && note.id === this.currentNote.id) {
-        li.classList.add('active');
+  private recordRevision(
+    note: Note,
+    source: RevisionSource,
+    label: string,
+  ): void {
+    if (!note.rawTranscription.trim() && !note.polishedNote.trim()) return;
+    const revision = createRevision(note, source, label);
+    const last = this.lastUserRevision;
+    if (source === 'user' && last?.noteId === note.id) {
+      if (isSameContent(last, revision)) return;
+      if (
+        last.label === label &&
+        revision.timestamp - last.timestamp < USER_REVISION_MERGE_MS
+      ) {
+        revision.id = last.id;
       }
+    }
+    this.lastUserRevision = source === 'user' ? revision : null;
+    saveRevision(revision).catch((error) =>
+      this.reportStorageError('Could not save revision', error),
+    );
+  }
 
-      const titleDiv = document.createElement('div');
-      titleDiv.className = 'note-item-title';
-      titleDiv.textContent = note.title;
+  private async openHistoryDialog(): Promise<void> {
+    const note = this.currentNote;
+    if (!note) return;
+    this.flushAutosave();
+    this.historyRevisions = [];
+    this.selectedRevisionId = null;
+    this.historyList.innerHTML = '';
+    this.historyDiff.innerHTML = '';
+    this.historyStatus.textContent = 'Loading...';
+    this.openModal(this.historyDialog);
+    try {
+      this.historyRevisions = await loadRevisions(note.id);
+    } catch (error) {
+      console.error('Error loading revisions:', error);
+      this.historyStatus.textContent = 'Could not load revision history.';
+      return;
+    }
+    if (this.currentNote !== note) return;
+    this.historyStatus.textContent = '';
+    this.selectedRevisionId = this.historyRevisions[0]?.id ?? null;
+    this.renderHistory();
+  }
 
-      const snippetDiv = document.createElement('div');
-      snippetDiv.className = 'note-item-snippet';
-      snippetDiv.textContent =
-        note.rawTranscription.substring(0, 50) + '...';
-
-      const actionsDiv = document.createElement('div');
-      actionsDiv.className = 'note-item-actions';
-      const deleteBtn = document.createElement('button');
-      deleteBtn.className = 'note-action-btn';
-      deleteBtn.title = 'Delete Note';
-      deleteBtn.innerHTML = '<i class="fas fa-trash"></i>';
-      deleteBtn.onclick = (e) => {
-        e.stopPropagation();
-        this.deleteNote(note.id);
-      };
+  private formatRevisionTime(revision: NoteRevision): string {
+    return new Date(revision.timestamp).toLocaleString(undefined, {
+      dateStyle: 'medium',
+      timeStyle: 'short',
+    });
+  }
 
-      actionsDiv.appendChild(deleteBtn);
-      li.appendChild(titleDiv);
-      li.appendChild(snippetDiv);
-      li.appendChild(actionsDiv);
+  private renderHistory(): void {
+    this.historyList.innerHTML = '';
+    this.historyCompareSelect.innerHTML = '';
+    if (this.historyRevisions.length === 0) {
+      const empty = document.createElement('p');
+      empty.className = 'modal-empty';
+      empty.textContent =
+        'No revisions yet. They are recorded when a note is transcribed, polished or edited.';
+      this.historyDiff.replaceChildren(empty);
+      return;
+    }
+
+    const current = document.createElement('option');
+    current.value = '';
+    current.textContent = 'Current note';
+    this.historyCompareSelect.appendChild(current);
+    this.historyRevisions.forEach((revision) => {
+      const li = document.createElement('li');
+      li.className = 'history-item';
+      li.classList.toggle('active', revision.id === this.selectedRevisionId);
+      const time = document.createElement('div');
+      time.className = 'history-item-time';
+      time.textContent = this.formatRevisionTime(revision);
+      const source = document.createElement('span');
+      source.className = `revision-source ${revision.source}`;
+      source.textContent = revision.source === 'model' ? 'Model' : 'You';
+      time.appendChild(source);
+      const label = document.createElement('div');
+      label.className = 'history-item-label';
+      label.textContent = revision.label;
+      li.append(time, label);
       li.onclick = () => {
-        this.displayNoteById(note.id);
-        this.toggleSidebar();
+        this.selectedRevisionId = revision.id;
+        this.renderHistory();
       };
-      this.notesList.appendChild(li);
+      this.historyList.appendChild(li);
+
+      const option = document.createElement('option');
+      option.value = revision.id;
+      option.textContent = `${this.formatRevisionTime(revision)} · ${revision.label}`;
+      this.historyCompareSelect.appendChild(option);
+    });
+    this.renderRevisionDiff();
+  }
+
+  /** Shows what changed from the selected revision to the compared one. */
+  private renderRevisionDiff(): void {
+    const revision = this.historyRevisions.find(
+      (r) => r.id === this.selectedRevisionId,
+    );
+    const note = this.currentNote;
+    if (!revision || !note) return;
+    const field = this.historyFieldSelect.value as RevisionField;
+    const compared =
+      this.historyRevisions.find(
+        (r) => r.id === this.historyCompareSelect.value,
+      ) ?? note;
+    const lines = diffLines(revision[field], compared[field]);
+    this.renderDiffLines(this.historyDiff, lines);
+    if (lines.every((line) => line.type === 'same')) {
+      const same = document.createElement('p');
+      same.className = 'modal-empty';
+      same.textContent = 'No differences.';
+      this.historyDiff.prepend(same);
+    }
+  }
+
+  private renderDiffLines(container: HTMLElement, lines: DiffLine[]): void {
+    container.innerHTML = '';
+    // Long unchanged stretches are collapsed to a few lines of context.
+    const nearChange = lines.map((line, index) =>
+      lines
+        .slice(
+          Math.max(0, index - DIFF_CONTEXT_LINES),
+          index + DIFF_CONTEXT_LINES + 1,
+        )
+        .some((l) => l.type !== 'same'),
+    );
+    let skipped = 0;
+    const flushSkipped = () => {
+      if (skipped === 0) return;
+      const div = document.createElement('div');
+      div.className = 'diff-skipped';
+      div.textContent = `${skipped} unchanged line${skipped === 1 ? '' : 's'}`;
+      container.appendChild(div);
+      skipped = 0;
+    };
+    lines.forEach((line, index) => {
+      if (line.type === 'same' && !nearChange[index]) {
+        skipped++;
+        return;
+      }
+      flushSkipped();
+      const div = document.createElement('div');
+      div.className = `diff-line ${line.type}`;
+      div.textContent = line.text || ' ';
+      container.appendChild(div);
     });
+    flushSkipped();
+  }
+
+  private restoreSelectedRevision(): void {
+    const revision = this.historyRevisions.find(
+      (r) => r.id === this.selectedRevisionId,
+    );
+    const note = this.currentNote;
+    if (!revision || !note) return;
+    const when = this.formatRevisionTime(revision);
+    if (!confirm(`Replace the current note with the version from ${when}?`)) {
+      return;
+    }
+    this.stopGeneration();
+    note.title = revision.title;
+    note.rawTranscription = revision.rawTranscription;
+    note.polishedNote = revision.polishedNote;
+    note.segments = revision.segments?.map((segment) => ({...segment}));
+    this.displayNote(note);
+    this.saveOrUpdateCurrentNote();
+    this.recordRevision(note, 'user', `Restored version from ${when}`);
+    this.closeModal(this.historyDialog);
+    this.recordingStatus.textContent = `Restored version from ${when}.`;
   }
 
   private displayNote(note: Note): void {
+    this.discardRewrite();
     const titlePlaceholder =
       this.editorTitle.getAttribute('placeholder') || 'Untitled Note';
     this.editorTitle.textContent = note.title || titlePlaceholder;
@@ -674,34 +4907,613 @@ class VoiceNotesApp {
       !note.title || note.title === titlePlaceholder,
     );
 
-    const rawPlaceholder =
-      this.rawTranscription.getAttribute('placeholder') || '';
-    this.rawTranscription.textContent = note.rawTranscription || rawPlaceholder;
-    this.rawTranscription.classList.toggle(
-      'placeholder-active',
-      !note.rawTranscription,
+    this.renderRawTranscription(note);
+
+    this.renderPolishedNote(note);
+    if (isNoteViewId(this.activeTab)) this.showGeneratedView(this.activeTab);
+    if (this.activeTab === 'translation') this.renderTranslationView();
+    this.renderNoteLanguage(note);
+    this.renderAudioStats(note);
+    this.renderTemplateOptions();
+    this.renderFolderOptions();
+    this.renderTranscriberOptions();
+    this.renderNoteTags();
+
+    this.loadNoteAudio(note).catch(console.error);
+  }
+
+  private renderPolishedNote(note: Note): void {
+    this.renderPolishedMarkdown(note.polishedNote);
+  }
+
+  /** Shows Markdown in both the source editor and the rendered preview. */
+  private renderPolishedMarkdown(markdown: string): void {
+    this.renderPreviewThrottled.cancel();
+    if (this.polishedSource.value !== markdown) {
+      this.polishedSource.value = markdown;
+    }
+    this.resizePolishedSource();
+    this.renderPolishedPreview(markdown);
+  }
+
+  private renderPolishedPreview(markdown: string): void {
+    const empty = !markdown.trim();
+    if (empty) {
+      this.polishedNote.textContent =
+        this.polishedNote.getAttribute('placeholder') || '';
+    } else {
+      this.polishedNote.innerHTML = renderMarkdown(markdown);
+      this.markGlossaryInPreview();
+    }
+    this.polishedNote.classList.toggle('placeholder-active', empty);
+  }
+
+  private renderTabs(): void {
+    NOTE_TABS.forEach(({id, label}) => {
+      const button = document.createElement('button');
+      button.className = 'tab-button';
+      button.dataset.tab = id;
+      button.textContent = label;
+      button.addEventListener('click', () => this.setActiveTab(id));
+      this.tabNavigation.insertBefore(button, this.activeTabIndicator);
+    });
+    // Wait for layout so the indicator can be sized to the button.
+    requestAnimationFrame(() => this.setActiveTab(this.activeTab, true));
+  }
+
+  private setActiveTab(id: NoteTabId, skipAnimation = false): void {
+    this.activeTab = id;
+    this.tabNavigation
+      .querySelectorAll<HTMLButtonElement>('.tab-button')
+      .forEach((button) =>
+        button.classList.toggle('active', button.dataset.tab === id),
+      );
+    this.polishedPane.classList.toggle('active', id === 'note');
+    this.rawTranscription.classList.toggle('active', id === 'raw');
+    this.generatedViewPane.classList.toggle('active', isNoteViewId(id));
+    this.translationPane.classList.toggle('active', id === 'translation');
+    this.positionTabIndicator(skipAnimation);
+    if (isNoteViewId(id)) this.showGeneratedView(id);
+    if (id === 'translation') this.renderTranslationView();
+  }
+
+  private positionTabIndicator(skipAnimation: boolean): void {
+    const button =
+      this.tabNavigation.querySelector<HTMLButtonElement>('.tab-button.active');
+    if (!button) return;
+    const indicator = this.activeTabIndicator;
+    if (skipAnimation) indicator.style.transition = 'none';
+    indicator.style.left = `${button.offsetLeft}px`;
+    indicator.style.width = `${button.offsetWidth}px`;
+    if (skipAnimation) {
+      // Apply the new position before the transition comes back.
+      indicator.offsetHeight;
+      indicator.style.transition = '';
+    }
+  }
+
+  /** Shows a generated view of the current note, generating it if needed. */
+  private showGeneratedView(viewId: NoteViewId): void {
+    const note = this.currentNote;
+    if (note && !note.views?.[viewId] && getViewSource(note)) {
+      this.generateView(note, viewId).catch(console.error);
+      return;
+    }
+    this.renderGeneratedView();
+  }
+
+  private renderGeneratedView(): void {
+    const viewId = this.activeTab;
+    const note = this.currentNote;
+    if (!isNoteViewId(viewId) || !note) return;
+    const view = note.views?.[viewId];
+    const generating = this.viewGenerations.has(`${note.id}:${viewId}`);
+    this.generatedViewContent.innerHTML = view
+      ? renderMarkdown(view.markdown)
+      : '';
+    this.regenerateViewButton.disabled = generating || !getViewSource(note);
+    if (generating) {
+      this.generatedViewStatus.textContent = 'Generating...';
+    } else if (!view) {
+      this.generatedViewStatus.textContent = getViewSource(note)
+        ? ''
+        : 'Record or write a note first; this view is generated from it.';
+    } else if (isViewStale(view, note)) {
+      this.generatedViewStatus.textContent =
+        'The note has changed since this was generated.';
+    } else {
+      this.generatedViewStatus.textContent = `Generated ${new Date(view.generatedAt).toLocaleString()}`;
+    }
+  }
+
+  /**
+   * Generates one of a note's views and stores it on the note. Keeps going
+   * in the background if the user switches to another tab or note.
+   */
+  private async generateView(note: Note, viewId: NoteViewId): Promise<void> {
+    const key = `${note.id}:${viewId}`;
+    const view = NOTE_VIEWS.find(({id}) => id === viewId);
+    if (!view || this.viewGenerations.has(key)) return;
+    this.flushAutosave();
+    const controller = new AbortController();
+    this.viewGenerations.set(key, controller);
+    const isShown = () =>
+      this.currentNote === note && this.activeTab === viewId;
+    const showPartial = throttleToAnimationFrame((markdown: string) => {
+      if (isShown()) {
+        this.generatedViewContent.innerHTML = renderMarkdown(markdown);
+      }
+    });
+    if (isShown()) this.renderGeneratedView();
+    const contentHash = hashNoteContent(note);
+    let failure: string | null = null;
+    try {
+      const markdown = await withRetry(
+        () =>
+          streamGeneratedText(
+            this.genAI,
+            {
+              model: this.settings.polishingModel,
+              contents: [{text: buildViewPrompt(view, note)}],
+              config: {temperature: this.settings.temperature},
+            },
+            controller.signal,
+            showPartial,
+          ),
+        controller.signal,
+        (error, delayMs) => {
+          if (isShown()) {
+            this.generatedViewStatus.textContent = describeRetry(
+              error,
+              delayMs,
+            );
+          }
+        },
+      );
+      if (!markdown.trim()) throw new GeminiError('empty');
+      note.views = {
+        ...note.views,
+        [viewId]: {markdown, generatedAt: Date.now(), contentHash},
+      };
+      if (this.notes.includes(note)) this.persistNote(note);
+    } catch (error) {
+      console.error(`Error generating ${view.label}:`, error);
+      failure = classifyGeminiError(error).message;
+    } finally {
+      showPartial.cancel();
+      this.viewGenerations.delete(key);
+    }
+    if (!isShown()) return;
+    this.renderGeneratedView();
+    if (failure) {
+      this.generatedViewStatus.textContent = `Could not generate: ${failure}`;
+    }
+  }
+
+  private renderTranslationView(): void {
+    const note = this.currentNote;
+    if (this.activeTab !== 'translation' || !note) return;
+    const language = this.translationLanguage;
+    this.translationLanguageSelect.innerHTML = '';
+    TRANSCRIPT_LANGUAGES.forEach(({name}) => {
+      const translated = note.translations?.some((t) => t.language === name);
+      this.translationLanguageSelect.appendChild(
+        new Option(translated ? `${name} (translated)` : name, name),
+      );
+    });
+    this.translationLanguageSelect.value = language;
+
+    const source = getViewSource(note);
+    const translation = note.translations?.find((t) => t.language === language);
+    const generating = this.viewGenerations.has(
+      `${note.id}:translation:${language}`,
+    );
+    this.translationOriginalLabel.textContent = note.language
+      ? `Original (${note.language})`
+      : 'Original';
+    this.translationOriginal.innerHTML = source ? renderMarkdown(source) : '';
+    this.translationLabel.textContent = language;
+    this.translationContent.innerHTML = translation
+      ? renderMarkdown(translation.markdown)
+      : '';
+    this.translateButton.disabled = generating || !source;
+    this.translateButton.title = translation ? 'Translate again' : 'Translate';
+    if (generating) {
+      this.translationStatus.textContent = 'Translating...';
+    } else if (!source) {
+      this.translationStatus.textContent =
+        'Record or write a note first; the translation is made from it.';
+    } else if (!translation) {
+      this.translationStatus.textContent = `Not translated into ${language} yet.`;
+    } else if (isTranslationStale(translation, note)) {
+      this.translationStatus.textContent =
+        'The note has changed since it was translated.';
+    } else {
+      this.translationStatus.textContent = `Translated ${new Date(translation.generatedAt).toLocaleString()}`;
+    }
+  }
+
+  /**
+   * Translates a note into `language` and stores the translation on the
+   * note, replacing an earlier one. Like views, it keeps going in the
+   * background if the user switches away.
+   */
+  private async translateNote(note: Note, language: string): Promise<void> {
+    const key = `${note.id}:translation:${language}`;
+    if (this.viewGenerations.has(key) || !getViewSource(note)) return;
+    this.flushAutosave();
+    const controller = new AbortController();
+    this.viewGenerations.set(key, controller);
+    const isShown = () =>
+      this.currentNote === note &&
+      this.activeTab === 'translation' &&
+      this.translationLanguage === language;
+    const showPartial = throttleToAnimationFrame((markdown: string) => {
+      if (isShown()) {
+        this.translationContent.innerHTML = renderMarkdown(markdown);
+      }
+    });
+    if (isShown()) this.renderTranslationView();
+    const contentHash = hashNoteContent(note);
+    let failure: string | null = null;
+    try {
+      const markdown = await withRetry(
+        () =>
+          streamGeneratedText(
+            this.genAI,
+            {
+              model: this.settings.polishingModel,
+              contents: [{text: buildTranslationPrompt(note, language)}],
+              config: {temperature: this.settings.temperature},
+            },
+            controller.signal,
+            showPartial,
+          ),
+        controller.signal,
+        (error, delayMs) => {
+          if (isShown()) {
+            this.translationStatus.textContent = describeRetry(error, delayMs);
+          }
+        },
+      );
+      if (!markdown.trim()) throw new GeminiError('empty');
+      note.translations = upsertTranslation(note.translations, {
+        language,
+        markdown,
+        generatedAt: Date.now(),
+        contentHash,
+      });
+      if (this.notes.includes(note)) this.persistNote(note);
+    } catch (error) {
+      console.error(`Error translating into ${language}:`, error);
+      failure = classifyGeminiError(error).message;
+    } finally {
+      showPartial.cancel();
+      this.viewGenerations.delete(key);
+    }
+    if (!isShown()) return;
+    this.renderTranslationView();
+    if (failure) {
+      this.translationStatus.textContent = `Could not translate: ${failure}`;
+    }
+  }
+
+  /**
+   * Scrolls `to` to the same relative position whenever `from` scrolls, so
+   * the two translation columns stay level with each other.
+   */
+  private syncScroll(from: HTMLElement, to: HTMLElement): void {
+    from.addEventListener('scroll', () => {
+      // Ignore the scroll caused by following the other column, which would
+      // otherwise bounce back.
+      if (this.scrollSyncTarget === from) {
+        this.scrollSyncTarget = null;
+        return;
+      }
+      const range = from.scrollHeight - from.clientHeight;
+      const top =
+        range > 0
+          ? (from.scrollTop / range) * (to.scrollHeight - to.clientHeight)
+          : 0;
+      // No scroll event fires if the position does not change.
+      if (Math.abs(to.scrollTop - top) < 1) return;
+      this.scrollSyncTarget = to;
+      to.scrollTop = top;
+    });
+  }
+
+  /** Stops generating the views and translations of one note, or of all. */
+  private cancelViewGenerations(noteId?: string): void {
+    this.viewGenerations.forEach((controller, key) => {
+      if (!noteId || key.startsWith(`${noteId}:`)) controller.abort();
+    });
+  }
+
+  private initEditorMode(): void {
+    const saved = localStorage.getItem('editorMode');
+    this.setEditorMode(
+      saved === 'source' || saved === 'split' ? saved : 'preview',
     );
+  }
+
+  private setEditorMode(mode: EditorMode): void {
+    this.editorMode = mode;
+    this.polishedPane.dataset.mode = mode;
+    this.polishedPane
+      .querySelectorAll<HTMLButtonElement>('[data-editor-mode]')
+      .forEach((button) =>
+        button.classList.toggle('active', button.dataset.editorMode === mode),
+      );
+    localStorage.setItem('editorMode', mode);
+    this.resizePolishedSource();
+  }
+
+  // The editor grows with its content so the note pane scrolls as a whole.
+  private resizePolishedSource(): void {
+    this.polishedSource.style.height = 'auto';
+    this.polishedSource.style.height = `${this.polishedSource.scrollHeight}px`;
+  }
+
+  private handlePolishedSourceInput(): void {
+    this.resizePolishedSource();
+    this.renderPreviewThrottled(this.polishedSource.value);
+    this.scheduleAutosave('polished');
+  }
+
+  private handlePolishedSourceKeydown(e: KeyboardEvent): void {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+    const format = FORMAT_SHORTCUTS[`${e.shiftKey ? 'Shift+' : ''}${e.code}`];
+    if (!format) return;
+    e.preventDefault();
+    this.applyFormat(format);
+  }
+
+  private applyFormat(format: MarkdownFormat): void {
+    const source = this.polishedSource;
+    if (this.editorMode === 'preview') this.setEditorMode('source');
+    source.focus();
+    const before = source.value;
+    const result = applyMarkdownFormat(
+      {
+        value: before,
+        selectionStart: source.selectionStart,
+        selectionEnd: source.selectionEnd,
+      },
+      format,
+    );
+    // Replace only the span that changed, through insertText, so the
+    // browser's undo history still covers formatting changes.
+    const after = result.value;
+    let prefix = 0;
+    while (
+      prefix < before.length &&
+      prefix < after.length &&
+      before[prefix] === after[prefix]
+    ) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < before.length - prefix &&
+      suffix < after.length - prefix &&
+      before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+    const inserted = after.slice(prefix, after.length - suffix);
+    source.setSelectionRange(prefix, before.length - suffix);
+    if (!document.execCommand('insertText', false, inserted)) {
+      source.setRangeText(inserted);
+      source.dispatchEvent(new Event('input', {bubbles: true}));
+    }
+    source.setSelectionRange(result.selectionStart, result.selectionEnd);
+  }
+
+  private getRawTranscriptText(): string {
+    if (this.currentNote?.segments?.length) {
+      return this.currentNote.rawTranscription.trim();
+    }
+    const text = this.rawTranscription.textContent?.trim() || '';
+    const placeholder = this.rawTranscription.getAttribute('placeholder');
+    return text === placeholder ? '' : text;
+  }
+
+  private renderRawTranscription(note: Note): void {
+    this.activeSegmentIndex = -1;
+    if (!note.segments || note.segments.length === 0) {
+      const rawPlaceholder =
+        this.rawTranscription.getAttribute('placeholder') || '';
+      this.rawTranscription.setAttribute('contenteditable', 'true');
+      this.rawTranscription.classList.remove('segment-view');
+      this.rawTranscription.textContent = note.rawTranscription
+        ? ''
+        : rawPlaceholder;
+      this.appendGlossaryMarked(
+        this.rawTranscription,
+        note.rawTranscription,
+        buildGlossaryMarker(this.glossary, note.glossaryCorrections),
+      );
+      this.rawTranscription.classList.toggle(
+        'placeholder-active',
+        !note.rawTranscription,
+      );
+      return;
+    }
+
+    // Segments get their own editable text spans; the container itself must
+    // not be editable or the timestamps and speaker labels could be mangled.
+    this.rawTranscription.setAttribute('contenteditable', 'false');
+    this.rawTranscription.classList.add('segment-view');
+    this.rawTranscription.classList.remove('placeholder-active');
+    this.rawTranscription.innerHTML = '';
+    const speakers = getSpeakers(note.segments);
+    const markGlossary = buildGlossaryMarker(
+      this.glossary,
+      note.glossaryCorrections,
+    );
+    note.segments.forEach((segment, index) => {
+      const row = document.createElement('div');
+      row.className = 'transcript-segment';
+      row.dataset.index = String(index);
+
+      const timeBtn = document.createElement('button');
+      timeBtn.className = 'segment-time';
+      timeBtn.title = 'Play from here';
+      timeBtn.textContent = formatTimestamp(segment.start);
+      timeBtn.onclick = () => this.seekToSegment(segment);
+
+      const speakerBtn = document.createElement('button');
+      speakerBtn.className = 'segment-speaker';
+      speakerBtn.title = 'Rename speaker';
+      speakerBtn.dataset.speakerIndex = String(
+        speakers.indexOf(segment.speaker) % 4,
+      );
+      speakerBtn.textContent = segment.speaker;
+      speakerBtn.onclick = () => this.renameSpeaker(segment.speaker);
+
+      const textSpan = document.createElement('span');
+      textSpan.className = 'segment-text';
+      textSpan.contentEditable = 'true';
+      this.appendGlossaryMarked(textSpan, segment.text, markGlossary);
+      textSpan.addEventListener('input', () => {
+        segment.text = textSpan.textContent?.trim() || '';
+        note.rawTranscription = segmentsToText(note.segments!);
+      });
+
+      row.appendChild(timeBtn);
+      row.appendChild(speakerBtn);
+      row.appendChild(textSpan);
+      this.rawTranscription.appendChild(row);
+    });
+  }
+
+  /**
+   * Appends text with the glossary terms it was corrected to, and words that
+   * look like a misheard glossary term, marked for review.
+   */
+  private appendGlossaryMarked(
+    parent: Node,
+    text: string,
+    markGlossary: (text: string) => GlossaryPart[],
+  ): void {
+    markGlossary(text).forEach((part) =>
+      parent.appendChild(this.createGlossaryPart(part)),
+    );
+  }
+
+  private createGlossaryPart(part: GlossaryPart): Node {
+    if (!part.mark) return document.createTextNode(part.text);
+    const mark = document.createElement('mark');
+    mark.className = `glossary-mark ${part.mark}`;
+    mark.title =
+      part.mark === 'corrected'
+        ? `Corrected to the glossary term "${part.term}"`
+        : `Not in the glossary. Did you mean "${part.term}"?`;
+    mark.textContent = part.text;
+    return mark;
+  }
+
+  private markGlossaryInPreview(): void {
+    const note = this.currentNote;
+    if (!note || (!this.glossary.length && !note.glossaryCorrections)) return;
+    const walker = document.createTreeWalker(
+      this.polishedNote,
+      NodeFilter.SHOW_TEXT,
+    );
+    const textNodes: Text[] = [];
+    while (walker.nextNode()) {
+      const node = walker.currentNode as Text;
+      if (!node.parentElement?.closest('code, pre')) textNodes.push(node);
+    }
+    const markGlossary = buildGlossaryMarker(
+      this.glossary,
+      note.glossaryCorrections,
+    );
+    textNodes.forEach((node) => {
+      const parts = markGlossary(node.data);
+      if (!parts.some((part) => part.mark)) return;
+      const fragment = document.createDocumentFragment();
+      parts.forEach((part) =>
+        fragment.appendChild(this.createGlossaryPart(part)),
+      );
+      node.replaceWith(fragment);
+    });
+  }
 
-    const polishedPlaceholder =
-      this.polishedNote.getAttribute('placeholder') || '';
-    this.polishedNote.innerHTML = note.polishedNote
-      ? marked.parse(note.polishedNote)
-      : polishedPlaceholder;
-    this.polishedNote.classList.toggle('placeholder-active', !note.polishedNote);
+  private seekToSegment(segment: TranscriptSegment): void {
+    if (!this.currentNote?.hasAudio || this.audioParts.length === 0) return;
+    let index = this.audioParts.length - 1;
+    while (index > 0 && this.audioParts[index].start > segment.start) index--;
+    this.showAudioPart(index, segment.start - this.audioParts[index].start);
+    this.audioPlayer.play().catch(console.warn);
+  }
+
+  private highlightActiveSegment(): void {
+    const segments = this.currentNote?.segments;
+    if (!segments) return;
+    const index = findSegmentIndexAt(segments, this.getAudioTime());
+    if (index === this.activeSegmentIndex) return;
+    this.rawTranscription
+      .querySelector('.transcript-segment.active')
+      ?.classList.remove('active');
+    this.activeSegmentIndex = index;
+    if (index < 0) return;
+    const row = this.rawTranscription.querySelector(
+      `.transcript-segment[data-index="${index}"]`,
+    );
+    row?.classList.add('active');
+    if (!this.audioPlayer.paused) row?.scrollIntoView({block: 'nearest'});
+  }
+
+  private renameSpeaker(oldName: string): void {
+    const note = this.currentNote;
+    if (!note?.segments) return;
+    const newName = prompt(`Rename "${oldName}" to:`, oldName)?.trim();
+    if (!newName || newName === oldName) return;
+
+    note.segments.forEach((segment) => {
+      if (segment.speaker === oldName) segment.speaker = newName;
+    });
+    note.rawTranscription = segmentsToText(note.segments);
+    this.renderRawTranscription(note);
+    if (note.polishedNote) {
+      note.polishedNote = replaceSpeakerName(
+        note.polishedNote,
+        oldName,
+        newName,
+      );
+      this.renderPolishedNote(note);
+    }
+    this.saveOrUpdateCurrentNote();
+    this.recordRevision(note, 'user', `Renamed ${oldName} to ${newName}`);
   }
 
   private displayNoteById(noteId: string): void {
     const note = this.notes.find((n) => n.id === noteId);
     if (note) {
+      this.flushAutosave();
       this.currentNote = note;
       this.displayNote(note);
       this.renderSidebar(); // To update active state
+      if (note.pending) {
+        this.recordingStatus.textContent =
+          'This recording is waiting for a network connection to be processed.';
+      } else if (note.failure) {
+        this.recordingStatus.textContent = `${note.failure.message} Use the retry button in the sidebar to try again.`;
+      }
     }
   }
 
   private deleteNote(noteId: string): void {
+    if (this.currentNote?.id === noteId) this.cancelAutosave();
+    if (this.processingNoteId === noteId) this.pendingController?.abort();
+    this.cancelViewGenerations(noteId);
     this.notes = this.notes.filter((note) => note.id !== noteId);
-    this.saveNotesToLocalStorage();
+    this.searchIndex.remove(noteId);
+    this.removeEmbeddings([noteId]);
+    deleteNoteRecord(noteId).catch((error) =>
+      this.reportStorageError('Could not delete note', error),
+    );
     this.renderSidebar();
     if (this.currentNote && this.currentNote.id === noteId) {
       this.createNewNote();
@@ -710,8 +5522,15 @@ class VoiceNotesApp {
 
   private clearAllNotes(): void {
     if (confirm('Are you sure you want to delete all notes?')) {
+      this.cancelAutosave();
+      this.pendingController?.abort();
+      this.cancelViewGenerations();
+      this.removeEmbeddings(this.notes.map((note) => note.id));
       this.notes = [];
-      this.saveNotesToLocalStorage();
+      this.searchIndex.clear();
+      clearNoteRecords().catch((error) =>
+        this.reportStorageError('Could not delete notes', error),
+      );
       this.renderSidebar();
       this.createNewNote();
     }
@@ -726,13 +5545,9 @@ document.addEventListener('DOMContentLoaded', () => {
     .forEach((el) => {
       const placeholder = el.getAttribute('placeholder')!;
       function updatePlaceholderState() {
-        const currentText = (
-          el.id === 'polishedNote' ? el.innerText : el.textContent
-        )?.trim();
+        const currentText = el.textContent?.trim();
         if (currentText === '' || currentText === placeholder) {
-          if (el.id === 'polishedNote' && currentText === '')
-            el.innerHTML = placeholder;
-          else if (currentText === '') el.textContent = placeholder;
+          if (currentText === '') el.textContent = placeholder;
           el.classList.add('placeholder-active');
         } else {
           el.classList.remove('placeholder-active');
@@ -740,12 +5555,9 @@ document.addEventListener('DOMContentLoaded', () => {
       }
       updatePlaceholderState();
       el.addEventListener('focus', function () {
-        const currentText = (
-          this.id === 'polishedNote' ? this.innerText : this.textContent
-        )?.trim();
+        const currentText = this.textContent?.trim();
         if (currentText === placeholder) {
-          if (this.id === 'polishedNote') this.innerHTML = '';
-          else this.textContent = '';
+          this.textContent = '';
           this.classList.remove('placeholder-active');
         }
       });
@@ -753,4 +5565,15 @@ document.addEventListener('DOMContentLoaded', () => {
     });
 });
 
+// Caches the app shell so the app opens, and records, without a network.
+if ('serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register('/sw.js')
+      .catch((error) =>
+        console.warn('Could not register the service worker:', error),
+      );
+  });
+}
+
 export {};
\ No newline at end of file
@@ -0,0 +1,284 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Markdown rendering with HTML sanitization, and the formatting commands of
+// the note's Markdown editor.
+
+import {marked} from 'marked';
+
+const ALLOWED_TAGS = new Set([
+  'A',
+  'B',
+  'BLOCKQUOTE',
+  'BR',
+  'CODE',
+  'DEL',
+  'DIV',
+  'EM',
+  'H1',
+  'H2',
+  'H3',
+  'H4',
+  'H5',
+  'H6',
+  'HR',
+  'I',
+  'IMG',
+  'INPUT',
+  'LI',
+  'MARK',
+  'OL',
+  'P',
+  'PRE',
+  'S',
+  'SPAN',
+  'STRONG',
+  'SUB',
+  'SUP',
+  'TABLE',
+  'TBODY',
+  'TD',
+  'TH',
+  'THEAD',
+  'TR',
+  'UL',
+]);
+
+// Removed together with their content; any other unknown element is
+// replaced by its children.
+const DROPPED_TAGS = new Set([
+  'BASE',
+  'BUTTON',
+  'EMBED',
+  'FORM',
+  'FRAME',
+  'FRAMESET',
+  'IFRAME',
+  'LINK',
+  'MATH',
+  'META',
+  'NOSCRIPT',
+  'OBJECT',
+  'SCRIPT',
+  'SELECT',
+  'STYLE',
+  'SVG',
+  'TEMPLATE',
+  'TEXTAREA',
+  'TITLE',
+]);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  A: ['href', 'title'],
+  IMG: ['src', 'alt', 'title'],
+  OL: ['start'],
+  TD: ['align'],
+  TH: ['align'],
+  INPUT: ['type', 'checked'],
+  CODE: ['class'],
+};
+
+function isSafeUrl(url: string, allowMailto: boolean): boolean {
+  const trimmed = url.replace(/[\u0000- ]/g, '');
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(trimmed)?.[1].toLowerCase();
+  if (!scheme) return true; // relative URL or fragment
+  return (
+    scheme === 'http' ||
+    scheme === 'https' ||
+    (allowMailto && scheme === 'mailto')
+  );
+}
+
+function sanitizeNode(node: Node): void {
+  Array.from(node.childNodes).forEach((child) => {
+    if (child.nodeType === Node.COMMENT_NODE) {
+      child.remove();
+      return;
+    }
+    if (!(child instanceof Element)) return;
+    const tag = child.tagName.toUpperCase();
+    if (DROPPED_TAGS.has(tag)) {
+      child.remove();
+      return;
+    }
+    sanitizeNode(child);
+    if (!ALLOWED_TAGS.has(tag)) {
+      child.replaceWith(...Array.from(child.childNodes));
+      return;
+    }
+    const allowed = ALLOWED_ATTRIBUTES[tag] ?? [];
+    Array.from(child.attributes).forEach((attribute) => {
+      if (!allowed.includes(attribute.name)) {
+        child.removeAttribute(attribute.name);
+      }
+    });
+    if (tag === 'A') {
+      const href = child.getAttribute('href');
+      if (href !== null && !isSafeUrl(href, true)) {
+        child.removeAttribute('href');
+      }
+      child.setAttribute('target', '_blank');
+      child.setAttribute('rel', 'noopener noreferrer');
+    } else if (tag === 'IMG') {
+      const src = child.getAttribute('src');
+      if (src !== null && !isSafeUrl(src, false)) child.remove();
+    } else if (tag === 'INPUT') {
+      // Only GFM task list checkboxes, and they are display-only.
+      if (child.getAttribute('type') !== 'checkbox') child.remove();
+      else child.setAttribute('disabled', '');
+    } else if (tag === 'CODE') {
+      const className = child.getAttribute('class');
+      if (className && !/^language-[\w-]+$/.test(className)) {
+        child.removeAttribute('class');
+      }
+    }
+  });
+}
+
+/**
+ * Strips everything from an HTML fragment except the elements and
+ * attributes that rendered Markdown needs, so model output and imported
+ * notes cannot inject scripts, styles or event handlers.
+ */
+export function sanitizeHtml(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  sanitizeNode(doc.body);
+  return doc.body.innerHTML;
+}
+
+export function renderMarkdown(markdown: string): string {
+  return sanitizeHtml(marked.parse(markdown));
+}
+
+export type MarkdownFormat =
+  | 'bold'
+  | 'italic'
+  | 'code'
+  | 'link'
+  | 'heading'
+  | 'bullet'
+  | 'numbered'
+  | 'checklist'
+  | 'quote';
+
+export interface TextEdit {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const WRAP_MARKERS: Partial<Record<MarkdownFormat, string>> = {
+  bold: '**',
+  italic: '*',
+  code: '`',
+};
+
+const LINE_PREFIXES: Partial<Record<MarkdownFormat, RegExp>> = {
+  bullet: /^(\s*)[-*+] (?!\[[ xX]\] )/,
+  numbered: /^(\s*)\d+[.)] /,
+  checklist: /^(\s*)[-*+] \[[ xX]\] /,
+  quote: /^(\s*)> ?/,
+};
+
+function toggleWrap(edit: TextEdit, marker: string): TextEdit {
+  const {value, selectionStart: start, selectionEnd: end} = edit;
+  const before = value.slice(start - marker.length, start);
+  const after = value.slice(end, end + marker.length);
+  if (before === marker && after === marker) {
+    return {
+      value:
+        value.slice(0, start - marker.length) +
+        value.slice(start, end) +
+        value.slice(end + marker.length),
+      selectionStart: start - marker.length,
+      selectionEnd: end - marker.length,
+    };
+  }
+  return {
+    value:
+      value.slice(0, start) +
+      marker +
+      value.slice(start, end) +
+      marker +
+      value.slice(end),
+    selectionStart: start + marker.length,
+    selectionEnd: end + marker.length,
+  };
+}
+
+function insertLink(edit: TextEdit): TextEdit {
+  const {value, selectionStart: start, selectionEnd: end} = edit;
+  const text = value.slice(start, end) || 'link text';
+  const url = 'https://';
+  const urlStart = start + text.length + 3;
+  return {
+    value: `${value.slice(0, start)}[${text}](${url})${value.slice(end)}`,
+    selectionStart: urlStart,
+    selectionEnd: urlStart + url.length,
+  };
+}
+
+/**
+ * Applies a line prefix to every line touched by the selection, or removes
+ * it when all of them already have it. Headings cycle from # to ### and off.
+ */
+function toggleLinePrefix(edit: TextEdit, format: MarkdownFormat): TextEdit {
+  const {value, selectionStart: start, selectionEnd: end} = edit;
+  const blockStart = value.lastIndexOf('\n', start - 1) + 1;
+  const nextBreak = value.indexOf('\n', Math.max(start, end - 1));
+  const blockEnd = nextBreak === -1 ? value.length : nextBreak;
+  const lines = value.slice(blockStart, blockEnd).split('\n');
+
+  let updated: string[];
+  if (format === 'heading') {
+    updated = lines.map((line) => {
+      const level = /^(#{1,6}) /.exec(line)?.[1].length ?? 0;
+      const text = line.replace(/^#{1,6} /, '');
+      return level >= 3 ? text : `${'#'.repeat(level + 1)} ${text}`;
+    });
+  } else {
+    const pattern = LINE_PREFIXES[format]!;
+    const allPrefixed = lines.every(
+      (line) => !line.trim() || pattern.test(line),
+    );
+    let number = 0;
+    updated = lines.map((line) => {
+      if (!line.trim()) return line;
+      if (allPrefixed) return line.replace(pattern, '$1');
+      // Replace any other list or quote marker rather than stacking them.
+      const indent = /^\s*/.exec(line)![0];
+      const text = Object.values(LINE_PREFIXES).reduce(
+        (current, prefix) => current.replace(prefix!, ''),
+        line.slice(indent.length),
+      );
+      const prefix =
+        format === 'bullet'
+          ? '- '
+          : format === 'numbered'
+            ? `${++number}. `
+            : format === 'checklist'
+              ? '- [ ] '
+              : '> ';
+      return indent + prefix + text;
+    });
+  }
+  const block = updated.join('\n');
+  return {
+    value: value.slice(0, blockStart) + block + value.slice(blockEnd),
+    selectionStart: start === end ? blockStart + block.length : blockStart,
+    selectionEnd: blockStart + block.length,
+  };
+}
+
+export function applyMarkdownFormat(
+  edit: TextEdit,
+  format: MarkdownFormat,
+): TextEdit {
+  const marker = WRAP_MARKERS[format];
+  if (marker) return toggleWrap(edit, marker);
+  if (format === 'link') return insertLink(edit);
+  return toggleLinePrefix(edit, format);
+}
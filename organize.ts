@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Folder tree and tag helpers, plus the Gemini request used to suggest tags
+// for a freshly polished note.
+
+import {Schema, Type} from '@google/genai';
+import {Folder, Note} from './types';
+
+const MAX_SUGGESTED_TAGS = 5;
+
+export const TAG_SUGGESTION_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {type: Type.STRING},
+};
+
+/** Tags are stored lower-case with dashes, e.g. "Heart Failure" -> "heart-failure". */
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-')
+    .replace(/[^\p{L}\p{N}/-]+/gu, '')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/** Splits comma- or whitespace-separated user input into normalized tags. */
+export function parseTagInput(input: string): string[] {
+  return uniqueTags(input.split(/[,;\n]+/));
+}
+
+export function uniqueTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+}
+
+/** All tags in use with the number of notes carrying each, most used first. */
+export function collectTags(notes: Note[]): Array<[string, number]> {
+  const counts = new Map<string, number>();
+  notes.forEach((note) =>
+    note.tags?.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1)),
+  );
+  return Array.from(counts).sort(
+    (a, b) => b[1] - a[1] || a[0].localeCompare(b[0]),
+  );
+}
+
+export function buildTagPrompt(
+  noteMarkdown: string,
+  existingTags: string[],
+): string {
+  const existing = existingTags.length
+    ? `Reuse these existing tags where they fit: ${existingTags.join(', ')}.`
+    : '';
+  return `Suggest up to ${MAX_SUGGESTED_TAGS} short subject tags for organizing the note below, such as the organ system, discipline or key topic (e.g. "cardio", "renal", "pharm", "heart-failure"). ${existing} Return lower-case tags only. Note:
+${noteMarkdown}`;
+}
+
+export function parseTagSuggestions(json: string): string[] {
+  const data = JSON.parse(json);
+  if (!Array.isArray(data)) return [];
+  return uniqueTags(
+    data.filter((tag): tag is string => typeof tag === 'string'),
+  ).slice(0, MAX_SUGGESTED_TAGS);
+}
+
+export function getChildFolders(
+  folders: Folder[],
+  parentId: string | null,
+): Folder[] {
+  return folders
+    .filter((folder) => folder.parentId === parentId)
+    .sort((a, b) =>
+      a.name.localeCompare(b.name, undefined, {sensitivity: 'base'}),
+    );
+}
+
+/** Ids of the folder and everything nested below it. */
+export function getFolderSubtreeIds(
+  folders: Folder[],
+  folderId: string,
+): Set<string> {
+  const ids = new Set([folderId]);
+  let added = true;
+  while (added) {
+    added = false;
+    folders.forEach((folder) => {
+      if (folder.parentId && ids.has(folder.parentId) && !ids.has(folder.id)) {
+        ids.add(folder.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+}
+
+/**
+ * Moves folders to the top level whose parent chain loops back on itself or
+ * leads to a missing folder, as either would hide them from the tree.
+ * Returns the folders that were moved.
+ */
+export function repairFolderTree(folders: Folder[]): Folder[] {
+  const byId = new Map(folders.map((folder) => [folder.id, folder]));
+  const moved: Folder[] = [];
+  folders.forEach((start) => {
+    const seen = new Set<string>();
+    let folder = start;
+    while (folder.parentId) {
+      seen.add(folder.id);
+      const parent = byId.get(folder.parentId);
+      if (!parent || seen.has(parent.id)) {
+        folder.parentId = null;
+        moved.push(folder);
+        break;
+      }
+      folder = parent;
+    }
+  });
+  return moved;
+}
+
+/** "Cardio / Heart failure" style path, used in pickers. */
+export function getFolderPath(folders: Folder[], folderId: string): string {
+  const byId = new Map(folders.map((folder) => [folder.id, folder]));
+  const names: string[] = [];
+  const seen = new Set<string>();
+  let folder = byId.get(folderId);
+  while (folder && !seen.has(folder.id)) {
+    seen.add(folder.id);
+    names.unshift(folder.name);
+    folder = folder.parentId ? byId.get(folder.parentId) : undefined;
+  }
+  return names.join(' / ');
+}
+
+/** Folders in tree order with their depth, for flat pickers and menus. */
+export function flattenFolderTree(
+  folders: Folder[],
+): Array<{folder: Folder; depth: number}> {
+  const result: Array<{folder: Folder; depth: number}> = [];
+  const visit = (parentId: string | null, depth: number) => {
+    getChildFolders(folders, parentId).forEach((folder) => {
+      result.push({folder, depth});
+      visit(folder.id, depth + 1);
+    });
+  };
+  visit(null, 0);
+  return result;
+}
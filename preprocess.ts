@@ -0,0 +1,185 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Prepares audio before it is transcribed: downmixes it to mono at
+// CHUNK_SAMPLE_RATE, normalizes its loudness and shortens long silences, so
+// less audio is uploaded and fewer audio tokens are used. Notes keep the
+// original audio for playback.
+
+import {decodeAudio, encodeWav, frameEnergy, mixToMono} from './chunking';
+import {formatTimestamp} from './transcript';
+
+const FRAME_SECONDS = 0.05;
+// Frames quieter than this are ignored when measuring loudness.
+const LOUDNESS_GATE_DBFS = -60;
+const TARGET_LOUDNESS_DBFS = -20;
+const PEAK_LIMIT = 0.98;
+const MAX_GAIN = 10;
+// After normalizing, frames quieter than this count as silence.
+const SILENCE_DBFS = -45;
+// Longer silences than this are shortened to KEPT_SILENCE_SECONDS.
+const MAX_SILENCE_SECONDS = 1.5;
+const KEPT_SILENCE_SECONDS = 0.5;
+// The processed audio is only used if it is this much shorter or smaller,
+// and not larger, than the original.
+const MIN_SAVING = 0.1;
+
+export interface AudioProcessingStats {
+  originalDuration: number; // seconds
+  originalSize: number; // bytes
+  processedDuration: number;
+  processedSize: number;
+  // False if processing saved too little and the original was kept.
+  applied: boolean;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** E.g. "Original 12:30, 11.2 MB → processed 9:45, 4.1 MB (22% shorter)". */
+export function describeAudioProcessing(stats: AudioProcessingStats): string {
+  const original = `${formatTimestamp(stats.originalDuration)}, ${formatSize(stats.originalSize)}`;
+  const processed = `${formatTimestamp(stats.processedDuration)}, ${formatSize(stats.processedSize)}`;
+  const shorter = Math.round(
+    (1 - stats.processedDuration / stats.originalDuration) * 100,
+  );
+  const smaller = Math.round(
+    (1 - stats.processedSize / stats.originalSize) * 100,
+  );
+  const savings = [
+    shorter > 0 ? `${shorter}% shorter` : '',
+    smaller > 0 ? `${smaller}% smaller` : '',
+  ]
+    .filter(Boolean)
+    .join(', ');
+  return stats.applied
+    ? `Original ${original} → processed ${processed}${savings ? ` (${savings})` : ''}`
+    : `Original ${original} kept; processing would give ${processed}`;
+}
+
+function toDbfs(meanSquare: number): number {
+  return 10 * Math.log10(Math.max(meanSquare, 1e-12));
+}
+
+function normalizeLoudness(samples: Float32Array, frame: number): void {
+  let sum = 0;
+  let count = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i += frame) {
+    const energy = frameEnergy(samples, i, Math.min(samples.length, i + frame));
+    if (toDbfs(energy) > LOUDNESS_GATE_DBFS) {
+      sum += energy;
+      count++;
+    }
+  }
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  if (count === 0 || peak === 0) return;
+  const gain = Math.min(
+    MAX_GAIN,
+    PEAK_LIMIT / peak,
+    10 ** ((TARGET_LOUDNESS_DBFS - toDbfs(sum / count)) / 20),
+  );
+  for (let i = 0; i < samples.length; i++) samples[i] *= gain;
+}
+
+/** The sample ranges to keep, with every long silence shortened. */
+function findKeptRanges(
+  samples: Float32Array,
+  frame: number,
+  rate: number,
+): Array<[number, number]> {
+  const maxSilence = Math.floor(MAX_SILENCE_SECONDS * rate);
+  const keptEdge = Math.floor((KEPT_SILENCE_SECONDS * rate) / 2);
+  const ranges: Array<[number, number]> = [];
+  let keptFrom = 0;
+  let silenceFrom = -1;
+  const endSilence = (silenceTo: number) => {
+    if (silenceFrom >= 0 && silenceTo - silenceFrom > maxSilence) {
+      ranges.push([keptFrom, silenceFrom + keptEdge]);
+      keptFrom = silenceTo - keptEdge;
+    }
+    silenceFrom = -1;
+  };
+  for (let i = 0; i < samples.length; i += frame) {
+    const end = Math.min(samples.length, i + frame);
+    if (toDbfs(frameEnergy(samples, i, end)) < SILENCE_DBFS) {
+      if (silenceFrom < 0) silenceFrom = i;
+    } else {
+      endSilence(i);
+    }
+  }
+  endSilence(samples.length);
+  ranges.push([keptFrom, samples.length]);
+  return ranges.filter(([from, to]) => to > from);
+}
+
+/** Maps a time in the audio made of the kept ranges to the original. */
+function buildTimeMap(
+  ranges: Array<[number, number]>,
+  rate: number,
+): (seconds: number) => number {
+  return (seconds) => {
+    let position = seconds * rate;
+    for (const [from, to] of ranges) {
+      if (position < to - from) return (from + position) / rate;
+      position -= to - from;
+    }
+    const last = ranges.at(-1);
+    return last ? (last[1] + position) / rate : seconds;
+  };
+}
+
+/**
+ * Decodes and processes the audio. Resolves with the processed audio as a
+ * WAV file, or with the original if processing saved less than MIN_SAVING
+ * of both its duration and its size or made it larger, and with a function
+ * that maps times in the resolved audio to times in the original. Rejects
+ * if the audio cannot be decoded.
+ */
+export async function preprocessAudio(audio: Blob): Promise<{
+  audio: Blob;
+  stats: AudioProcessingStats;
+  toOriginalTime: (seconds: number) => number;
+}> {
+  const buffer = await decodeAudio(audio);
+  const rate = buffer.sampleRate;
+  const frame = Math.max(1, Math.floor(FRAME_SECONDS * rate));
+  const samples = mixToMono(buffer, 0, buffer.length);
+  normalizeLoudness(samples, frame);
+
+  const ranges = findKeptRanges(samples, frame, rate);
+  const length = ranges.reduce((total, [from, to]) => total + to - from, 0);
+  const processed = new AudioBuffer({
+    numberOfChannels: 1,
+    length: Math.max(1, length),
+    sampleRate: rate,
+  });
+  const output = processed.getChannelData(0);
+  let offset = 0;
+  ranges.forEach(([from, to]) => {
+    output.set(samples.subarray(from, to), offset);
+    offset += to - from;
+  });
+  const wav = encodeWav(processed, 0, processed.duration);
+
+  const stats: AudioProcessingStats = {
+    originalDuration: buffer.duration,
+    originalSize: audio.size,
+    processedDuration: processed.duration,
+    processedSize: wav.size,
+    applied:
+      wav.size < audio.size &&
+      (processed.duration < buffer.duration * (1 - MIN_SAVING) ||
+        wav.size < audio.size * (1 - MIN_SAVING)),
+  };
+  return stats.applied
+    ? {audio: wav, stats, toOriginalTime: buildTimeMap(ranges, rate)}
+    : {audio, stats, toOriginalTime: (seconds) => seconds};
+}
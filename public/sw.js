@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Service worker that keeps the app shell available offline. Pages and app
+// files are fetched from the network first and fall back to the cache;
+// versioned files from CDNs (fonts, icons, libraries) are served from the
+// cache and refreshed in the background. Gemini API calls are never cached.
+
+const CACHE_NAME = 'dictation-shell-v1';
+// Built scripts and styles have hashed names, so they are cached as they
+// are first loaded rather than listed here.
+const SHELL_FILES = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+const UNCACHED_HOSTS = ['generativelanguage.googleapis.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll(SHELL_FILES))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== CACHE_NAME)
+            .map((key) => caches.delete(key)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+function isCacheable(response) {
+  // Cross-origin stylesheets and fonts loaded without CORS are opaque.
+  return response.ok || response.type === 'opaque';
+}
+
+async function networkFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (isCacheable(response)) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached =
+      (await cache.match(request)) ??
+      // Any page of the app is the same single page.
+      (request.mode === 'navigate' ? await cache.match('/') : undefined);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function staleWhileRevalidate(request, event) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  const update = fetch(request).then((response) => {
+    if (isCacheable(response)) cache.put(request, response.clone());
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(update.catch(() => {}));
+    return cached;
+  }
+  return update;
+}
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (!url.protocol.startsWith('http') || UNCACHED_HOSTS.includes(url.host)) {
+    return;
+  }
+  event.respondWith(
+    url.origin === self.location.origin
+      ? networkFirst(request)
+      : staleWhileRevalidate(request, event),
+  );
+});
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Prompts for changing an existing polished note on request: refining the
+// whole note and rewriting a selected passage.
+
+export function buildRefinePrompt(
+  noteMarkdown: string,
+  instruction: string,
+): string {
+  return `Revise the markdown note below according to this instruction: "${instruction}". Keep every fact that the instruction does not ask you to remove, keep the markdown formatting and the level-1 heading, and do not add information that is not in the note unless the instruction asks for it. Return only the revised note in markdown, without any introduction or commentary. Note:
+${noteMarkdown}`;
+}
+
+export function buildRewritePrompt(
+  noteMarkdown: string,
+  passage: string,
+  instruction: string,
+): string {
+  const request = instruction
+    ? `according to this instruction: "${instruction}"`
+    : 'so that it is clearer and better written, keeping its meaning';
+  return `Rewrite the passage below, taken from a markdown note, ${request}. Return only the rewritten passage in markdown, without any introduction or commentary, so it can replace the original passage in place. Keep the passage's markdown structure (headings, list markers, indentation) unless the instruction asks to change it.
+Passage:
+${passage}
+
+Full note, for context only:
+${noteMarkdown}`;
+}
+
+/** Removes a ```markdown fence the model sometimes wraps its answer in. */
+export function stripMarkdownFence(text: string): string {
+  const match = /^\s*```(?:markdown|md)?\n([\s\S]*?)\n```\s*$/i.exec(text);
+  return match ? match[1] : text;
+}
+
+/**
+ * Keeps the whitespace around the original passage, so a rewrite of whole
+ * lines does not merge them with the surrounding text.
+ */
+export function fitReplacement(original: string, rewritten: string): string {
+  const leading = /^\s*/.exec(original)![0];
+  const trailing = /\s*$/.exec(original.slice(leading.length))![0];
+  return leading + stripMarkdownFence(rewritten).trim() + trailing;
+}
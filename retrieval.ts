@@ -0,0 +1,279 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Semantic retrieval for asking questions across notes. Each note's polished
+// note and raw transcript are split into overlapping chunks and embedded
+// with the Gemini embedding API; questions are answered from the chunks
+// whose vectors are closest to the question's.
+
+import {GoogleGenAI} from '@google/genai';
+import {Note} from './types';
+
+export const EMBEDDING_MODEL = 'text-embedding-004';
+
+const CHUNK_CHARS = 1200;
+const CHUNK_OVERLAP_CHARS = 200;
+// Most texts the API accepts in one batch embedding request.
+const EMBED_BATCH_SIZE = 100;
+const MAX_SOURCE_NOTES = 6;
+const MAX_CHUNKS_PER_SOURCE = 3;
+const MAX_HISTORY_TURNS = 6;
+
+export type ChunkField = 'polishedNote' | 'rawTranscription';
+
+export interface EmbeddedChunk {
+  field: ChunkField;
+  text: string;
+  vector: Float32Array; // unit length
+}
+
+/** Everything embedded for one note, stored per note id. */
+export interface NoteEmbeddings {
+  noteId: string;
+  model: string;
+  // Hash of the content that was embedded, to detect stale vectors.
+  contentHash: string;
+  chunks: EmbeddedChunk[];
+}
+
+export interface RetrievedChunk {
+  noteId: string;
+  chunk: EmbeddedChunk;
+  score: number;
+}
+
+/** A note quoted in a chat answer; `number` is its citation, e.g. [2]. */
+export interface ChatSource {
+  number: number;
+  note: Note;
+  chunks: EmbeddedChunk[];
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+  sources?: ChatSource[];
+}
+
+/** FNV-1a hash of the text that gets embedded for a note. */
+export function hashNoteContent(note: Note): string {
+  const text = `${note.title}\u0000${note.polishedNote}\u0000${note.rawTranscription}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/** Splits text into pieces no longer than `max`, at sentences if possible. */
+function splitLongUnit(unit: string, max: number): string[] {
+  const pieces: string[] = [];
+  unit.split(/(?<=[.!?])\s+/).forEach((sentence) => {
+    for (let i = 0; i < sentence.length; i += max) {
+      pieces.push(sentence.slice(i, i + max));
+    }
+  });
+  return pieces;
+}
+
+/**
+ * Packs paragraphs (or sentences of long paragraphs) into chunks of about
+ * CHUNK_CHARS, repeating the last ~CHUNK_OVERLAP_CHARS of each chunk at the
+ * start of the next so facts on a boundary are not cut in half.
+ */
+export function chunkText(text: string): string[] {
+  const units = text
+    .split(/\n\s*\n/)
+    .map((unit) => unit.trim())
+    .filter(Boolean)
+    .flatMap((unit) =>
+      unit.length > CHUNK_CHARS ? splitLongUnit(unit, CHUNK_CHARS) : [unit],
+    );
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+  units.forEach((unit) => {
+    if (current.length > 0 && length + unit.length > CHUNK_CHARS) {
+      chunks.push(current.join('\n\n'));
+      const overlap: string[] = [];
+      let overlapLength = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        if (overlapLength + current[i].length > CHUNK_OVERLAP_CHARS) break;
+        overlap.unshift(current[i]);
+        overlapLength += current[i].length;
+      }
+      current = overlap;
+      length = overlapLength;
+    }
+    current.push(unit);
+    length += unit.length;
+  });
+  if (current.length > 0) chunks.push(current.join('\n\n'));
+  return chunks;
+}
+
+function normalize(values: number[]): Float32Array {
+  const vector = Float32Array.from(values);
+  let norm = 0;
+  vector.forEach((value) => (norm += value * value));
+  norm = Math.sqrt(norm) || 1;
+  return vector.map((value) => value / norm);
+}
+
+async function embedTexts(
+  genAI: GoogleGenAI,
+  texts: string[],
+  taskType: 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY',
+): Promise<Float32Array[]> {
+  const vectors: Float32Array[] = [];
+  for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+    const batch = texts.slice(i, i + EMBED_BATCH_SIZE);
+    const response: {embeddings?: Array<{values?: number[]}>} =
+      await genAI.models.embedContent({
+        model: EMBEDDING_MODEL,
+        contents: batch,
+        config: {taskType},
+      });
+    const embeddings = response.embeddings ?? [];
+    if (embeddings.length !== batch.length) {
+      throw new Error(
+        `Expected ${batch.length} embeddings, got ${embeddings.length}`,
+      );
+    }
+    embeddings.forEach((embedding) =>
+      vectors.push(normalize(embedding.values ?? [])),
+    );
+  }
+  return vectors;
+}
+
+export async function embedNote(
+  genAI: GoogleGenAI,
+  note: Note,
+): Promise<NoteEmbeddings> {
+  const contentHash = hashNoteContent(note);
+  const pieces = (['polishedNote', 'rawTranscription'] as ChunkField[]).flatMap(
+    (field) => chunkText(note[field]).map((text) => ({field, text})),
+  );
+  // The title gives every chunk of a note the context of what it is about.
+  const vectors = await embedTexts(
+    genAI,
+    pieces.map(({text}) => `${note.title}\n\n${text}`),
+    'RETRIEVAL_DOCUMENT',
+  );
+  return {
+    noteId: note.id,
+    model: EMBEDDING_MODEL,
+    contentHash,
+    chunks: pieces.map((piece, i) => ({...piece, vector: vectors[i]})),
+  };
+}
+
+export async function embedQuery(
+  genAI: GoogleGenAI,
+  question: string,
+): Promise<Float32Array> {
+  const [vector] = await embedTexts(genAI, [question], 'RETRIEVAL_QUERY');
+  return vector;
+}
+
+/** In-memory copy of the stored embeddings, searched by cosine similarity. */
+export class EmbeddingIndex {
+  private records = new Map<string, NoteEmbeddings>();
+
+  set(record: NoteEmbeddings): void {
+    this.records.set(record.noteId, record);
+  }
+
+  remove(noteId: string): void {
+    this.records.delete(noteId);
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+
+  /** Whether the note's stored vectors match its current content. */
+  isCurrent(note: Note): boolean {
+    const record = this.records.get(note.id);
+    return (
+      !!record &&
+      record.model === EMBEDDING_MODEL &&
+      record.contentHash === hashNoteContent(note)
+    );
+  }
+
+  search(query: Float32Array, limit: number): RetrievedChunk[] {
+    const results: RetrievedChunk[] = [];
+    this.records.forEach((record) => {
+      record.chunks.forEach((chunk) => {
+        if (chunk.vector.length !== query.length) return;
+        let score = 0;
+        for (let i = 0; i < query.length; i++) {
+          score += query[i] * chunk.vector[i];
+        }
+        results.push({noteId: record.noteId, chunk, score});
+      });
+    });
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
+
+/**
+ * Groups the best chunks by note, in order of each note's best match, and
+ * numbers the notes for citation.
+ */
+export function selectSources(
+  matches: RetrievedChunk[],
+  notes: Note[],
+): ChatSource[] {
+  const byId = new Map(notes.map((note) => [note.id, note]));
+  const sources: ChatSource[] = [];
+  matches.forEach(({noteId, chunk}) => {
+    const note = byId.get(noteId);
+    if (!note) return;
+    let source = sources.find((s) => s.note.id === noteId);
+    if (!source) {
+      if (sources.length >= MAX_SOURCE_NOTES) return;
+      source = {number: sources.length + 1, note, chunks: []};
+      sources.push(source);
+    }
+    if (source.chunks.length < MAX_CHUNKS_PER_SOURCE) source.chunks.push(chunk);
+  });
+  return sources;
+}
+
+export function buildChatPrompt(
+  question: string,
+  sources: ChatSource[],
+  history: ChatTurn[],
+): string {
+  const excerpts = sources
+    .map(({number, note, chunks}) => {
+      const date = new Date(note.timestamp).toLocaleDateString();
+      const text = chunks
+        .map(
+          (chunk) =>
+            `(${chunk.field === 'polishedNote' ? 'note' : 'transcript'}) ${chunk.text}`,
+        )
+        .join('\n...\n');
+      return `[${number}] "${note.title || 'Untitled Note'}" (${date})\n${text}`;
+    })
+    .join('\n\n');
+  const conversation = history
+    .slice(-MAX_HISTORY_TURNS)
+    .map(
+      (turn) => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.text}`,
+    )
+    .join('\n');
+  return `You answer questions about the user's own notes and lecture transcripts. Answer using only the excerpts below. Cite the excerpts you use inline with their numbers in square brackets, e.g. [1] or [2][3], right after the statement they support. If the excerpts do not contain the answer, say so plainly instead of guessing. Answer in markdown.
+
+Excerpts:
+${excerpts || '(no matching notes)'}
+${conversation ? `\nConversation so far:\n${conversation}\n` : ''}
+Question: ${question}`;
+}
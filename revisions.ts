@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Per-note revision history: snapshots of a note's text taken whenever the
+// model produces output or the user edits it, and a line diff to compare
+// two snapshots.
+
+import {TranscriptSegment} from './transcript';
+import {Note} from './types';
+
+export type RevisionSource = 'model' | 'user';
+
+export interface NoteRevision {
+  id: string;
+  noteId: string;
+  timestamp: number;
+  source: RevisionSource;
+  label: string;
+  title: string;
+  rawTranscription: string;
+  polishedNote: string;
+  segments?: TranscriptSegment[];
+}
+
+export type RevisionField = 'polishedNote' | 'rawTranscription' | 'title';
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Larger inputs are compared line by line without looking for a minimal
+// diff, which keeps the table below a few million cells.
+const MAX_DIFF_CELLS = 4_000_000;
+
+export function createRevision(
+  note: Note,
+  source: RevisionSource,
+  label: string,
+): NoteRevision {
+  return {
+    id: `rev_${crypto.randomUUID()}`,
+    noteId: note.id,
+    timestamp: Date.now(),
+    source,
+    label,
+    title: note.title,
+    rawTranscription: note.rawTranscription,
+    polishedNote: note.polishedNote,
+    segments: note.segments?.map((segment) => ({...segment})),
+  };
+}
+
+export function isSameContent(a: NoteRevision, b: NoteRevision): boolean {
+  return (
+    a.title === b.title &&
+    a.rawTranscription === b.rawTranscription &&
+    a.polishedNote === b.polishedNote
+  );
+}
+
+/** Line diff of `before` -> `after` based on the longest common subsequence. */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Common prefix and suffix need no table.
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  const same = (lines: string[]): DiffLine[] =>
+    lines.map((text) => ({type: 'same', text}));
+  const prefix = same(a.slice(0, start));
+  const suffix = same(a.slice(endA));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  let middle: DiffLine[];
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    middle = [
+      ...midA.map((text): DiffLine => ({type: 'removed', text})),
+      ...midB.map((text): DiffLine => ({type: 'added', text})),
+    ];
+  } else {
+    // lengths[i][j] is the LCS length of midA[i..] and midB[j..].
+    const lengths = Array.from(
+      {length: midA.length + 1},
+      () => new Uint32Array(midB.length + 1),
+    );
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i][j] =
+          midA[i] === midB[j]
+            ? lengths[i + 1][j + 1] + 1
+            : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+    middle = [];
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        middle.push({type: 'same', text: midA[i]});
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        middle.push({type: 'removed', text: midA[i++]});
+      } else {
+        middle.push({type: 'added', text: midB[j++]});
+      }
+    }
+    while (i < midA.length) middle.push({type: 'removed', text: midA[i++]});
+    while (j < midB.length) middle.push({type: 'added', text: midB[j++]});
+  }
+  return [...prefix, ...middle, ...suffix];
+}
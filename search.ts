@@ -0,0 +1,222 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// In-memory inverted index over note titles, tags, polished notes, raw
+// transcripts and generated views. Notes are added, replaced and removed one
+// at a time so the index never has to be rebuilt when a single note changes.
+
+import {Note} from './types';
+
+type Field = 'title' | 'tags' | 'polished' | 'raw' | 'views';
+
+const FIELD_WEIGHTS: Record<Field, number> = {
+  title: 3,
+  tags: 3,
+  polished: 1.5,
+  raw: 1,
+  views: 1,
+};
+
+// Query terms at least this long also match longer words that start with
+// them, so results update sensibly while the user is still typing.
+const MIN_PREFIX_LENGTH = 3;
+
+export interface SearchResult {
+  id: string;
+  score: number;
+}
+
+export interface TextPart {
+  text: string;
+  match: boolean;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/** Strips the markdown syntax that would otherwise show up in snippets. */
+export function markdownToPlainText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_`~|]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** The text of a note's generated views, for searching. */
+export function viewsToPlainText(note: Note): string {
+  return Object.values(note.views ?? {})
+    .map((view) => markdownToPlainText(view.markdown))
+    .join(' ');
+}
+
+export class SearchIndex {
+  // token -> note id -> weighted term frequency
+  private postings = new Map<string, Map<string, number>>();
+  // note id -> tokens it contributed, so it can be removed cheaply
+  private docTokens = new Map<string, Set<string>>();
+
+  get size(): number {
+    return this.docTokens.size;
+  }
+
+  upsert(note: Note): void {
+    this.remove(note.id);
+    const weights = new Map<string, number>();
+    const fields: Array<[Field, string]> = [
+      ['title', note.title],
+      ['tags', (note.tags ?? []).join(' ')],
+      ['polished', markdownToPlainText(note.polishedNote)],
+      ['raw', note.rawTranscription],
+      ['views', viewsToPlainText(note)],
+    ];
+    fields.forEach(([field, text]) => {
+      tokenize(text).forEach((token) => {
+        weights.set(token, (weights.get(token) ?? 0) + FIELD_WEIGHTS[field]);
+      });
+    });
+    weights.forEach((weight, token) => {
+      let docs = this.postings.get(token);
+      if (!docs) {
+        docs = new Map();
+        this.postings.set(token, docs);
+      }
+      docs.set(note.id, weight);
+    });
+    this.docTokens.set(note.id, new Set(weights.keys()));
+  }
+
+  remove(noteId: string): void {
+    const tokens = this.docTokens.get(noteId);
+    if (!tokens) return;
+    tokens.forEach((token) => {
+      const docs = this.postings.get(token);
+      if (!docs) return;
+      docs.delete(noteId);
+      if (docs.size === 0) this.postings.delete(token);
+    });
+    this.docTokens.delete(noteId);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.docTokens.clear();
+  }
+
+  private expandTerm(term: string): string[] {
+    if (term.length < MIN_PREFIX_LENGTH) {
+      return this.postings.has(term) ? [term] : [];
+    }
+    const tokens: string[] = [];
+    this.postings.forEach((_docs, token) => {
+      if (token.startsWith(term)) tokens.push(token);
+    });
+    return tokens;
+  }
+
+  /**
+   * Returns the notes that match every query term, best first. Scores are
+   * TF-IDF style: rare terms and matches in titles count for more, and exact
+   * word matches beat prefix matches.
+   */
+  search(query: string): SearchResult[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) return [];
+    const totalDocs = Math.max(1, this.docTokens.size);
+    let scores: Map<string, number> | null = null;
+
+    for (const term of terms) {
+      const termScores = new Map<string, number>();
+      this.expandTerm(term).forEach((token) => {
+        const docs = this.postings.get(token)!;
+        const idf = Math.log(1 + totalDocs / docs.size);
+        const exactness = token === term ? 1 : 0.6;
+        docs.forEach((weight, id) => {
+          const tf = weight / (weight + 1.2);
+          termScores.set(
+            id,
+            Math.max(termScores.get(id) ?? 0, tf * idf * exactness),
+          );
+        });
+      });
+      if (!scores) {
+        scores = termScores;
+      } else {
+        const previous: Map<string, number> = scores;
+        const combined = new Map<string, number>();
+        termScores.forEach((score, id) => {
+          const before = previous.get(id);
+          if (before !== undefined) combined.set(id, before + score);
+        });
+        scores = combined;
+      }
+      if (scores.size === 0) return [];
+    }
+
+    return Array.from(scores!, ([id, score]) => ({id, score})).sort(
+      (a, b) => b.score - a.score,
+    );
+  }
+}
+
+function buildMatcher(query: string): RegExp | null {
+  const terms = Array.from(new Set(tokenize(query)))
+    .sort((a, b) => b.length - a.length)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (terms.length === 0) return null;
+  // Matches the start of words only, mirroring the index's prefix search.
+  return new RegExp(`(?<![\\p{L}\\p{N}])(${terms.join('|')})`, 'giu');
+}
+
+/** Splits text into matched and unmatched parts for highlighting. */
+export function highlightMatches(text: string, query: string): TextPart[] {
+  const matcher = buildMatcher(query);
+  if (!matcher) return [{text, match: false}];
+  const parts: TextPart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(matcher)) {
+    const start = match.index!;
+    if (start > last) parts.push({text: text.slice(last, start), match: false});
+    parts.push({text: match[0], match: true});
+    last = start + match[0].length;
+  }
+  if (last < text.length) parts.push({text: text.slice(last), match: false});
+  return parts;
+}
+
+/**
+ * Returns a short excerpt around the first match of the query in any of the
+ * texts, or null when none of them contains it.
+ */
+export function findSnippet(
+  texts: string[],
+  query: string,
+  radius = 50,
+): string | null {
+  const matcher = buildMatcher(query);
+  if (!matcher) return null;
+  for (const text of texts) {
+    matcher.lastIndex = 0;
+    const match = matcher.exec(text);
+    if (!match) continue;
+    const start = Math.max(0, match.index - radius);
+    const end = Math.min(text.length, match.index + match[0].length + radius);
+    return (
+      (start > 0 ? '…' : '') +
+      text.slice(start, end).trim() +
+      (end < text.length ? '…' : '')
+    );
+  }
+  return null;
+}
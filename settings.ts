@@ -0,0 +1,166 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Runtime settings: the Gemini API key, the models used for transcription
+// and for everything else, generation options and the transcription
+// provider. They are kept in localStorage, so one build can be shared by
+// people with their own keys.
+
+import {GoogleGenAI} from '@google/genai';
+import {classifyGeminiError} from './errors';
+import {
+  GlossaryTerm,
+  buildGlossaryPrompt,
+  glossaryVocabulary,
+} from './glossary';
+import {TRANSCRIPT_LANGUAGES} from './transcript';
+import {
+  GeminiTranscriber,
+  Transcriber,
+  TranscriberId,
+  WhisperTranscriber,
+  isTranscriberId,
+} from './transcription';
+
+export interface AppSettings {
+  // Empty to use the key the app was built with, if any.
+  apiKey: string;
+  transcriptionModel: string;
+  // Used for polishing and every other text generation.
+  polishingModel: string;
+  temperature: number;
+  // Empty to let the model detect the spoken language.
+  transcriptLanguage: string;
+  // Language polished notes are written in; empty to keep the spoken one.
+  polishLanguage: string;
+  // Used for notes that do not choose a transcriber of their own.
+  transcriber: TranscriberId;
+  // Full URL of an OpenAI-compatible transcription endpoint, e.g.
+  // http://localhost:8080/v1/audio/transcriptions.
+  whisperUrl: string;
+  whisperModel: string;
+  whisperApiKey: string;
+}
+
+export const MODEL_OPTIONS: Array<{id: string; label: string}> = [
+  {id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash'},
+  {id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro'},
+  {id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash-Lite'},
+  {id: 'gemini-2.0-flash', label: 'Gemini 2.0 Flash'},
+];
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  apiKey: '',
+  transcriptionModel: 'gemini-2.5-flash',
+  polishingModel: 'gemini-2.5-flash',
+  temperature: 1,
+  transcriptLanguage: '',
+  polishLanguage: '',
+  transcriber: 'gemini',
+  whisperUrl: '',
+  whisperModel: 'whisper-1',
+  whisperApiKey: '',
+};
+
+const SETTINGS_KEY = 'settings';
+
+export function loadSettings(): AppSettings {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+  } catch (e) {
+    parsed = {};
+  }
+  if (!parsed || typeof parsed !== 'object') parsed = {};
+  const saved = parsed as Record<string, unknown>;
+  const temperature = saved.temperature;
+  const transcriber = saved.transcriber;
+  const text = (value: unknown, fallback: string) =>
+    typeof value === 'string' ? value : fallback;
+  return {
+    apiKey: text(saved.apiKey, DEFAULT_SETTINGS.apiKey),
+    transcriptionModel:
+      text(saved.transcriptionModel, '') || DEFAULT_SETTINGS.transcriptionModel,
+    polishingModel:
+      text(saved.polishingModel, '') || DEFAULT_SETTINGS.polishingModel,
+    temperature:
+      typeof temperature === 'number' && temperature >= 0 && temperature <= 2
+        ? temperature
+        : DEFAULT_SETTINGS.temperature,
+    transcriptLanguage: text(
+      saved.transcriptLanguage,
+      DEFAULT_SETTINGS.transcriptLanguage,
+    ),
+    polishLanguage: text(saved.polishLanguage, DEFAULT_SETTINGS.polishLanguage),
+    transcriber: isTranscriberId(transcriber)
+      ? transcriber
+      : DEFAULT_SETTINGS.transcriber,
+    whisperUrl: text(saved.whisperUrl, DEFAULT_SETTINGS.whisperUrl),
+    whisperModel: text(saved.whisperModel, '') || DEFAULT_SETTINGS.whisperModel,
+    whisperApiKey: text(saved.whisperApiKey, DEFAULT_SETTINGS.whisperApiKey),
+  };
+}
+
+export function saveSettings(settings: AppSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/** The key in use: the one entered in the settings, else the built-in one. */
+export function effectiveApiKey(settings: AppSettings): string {
+  return settings.apiKey || process.env.API_KEY || '';
+}
+
+export function createGenAI(settings: AppSettings): GoogleGenAI {
+  return new GoogleGenAI({apiKey: effectiveApiKey(settings)});
+}
+
+/** The transcriber to use, or the default one if `id` is not given. */
+export function createTranscriber(
+  settings: AppSettings,
+  genAI: GoogleGenAI,
+  glossary: GlossaryTerm[],
+  id: TranscriberId = settings.transcriber,
+): Transcriber {
+  if (id === 'whisper') {
+    const language = TRANSCRIPT_LANGUAGES.find(
+      ({name}) => name === settings.transcriptLanguage,
+    );
+    return new WhisperTranscriber(
+      settings.whisperUrl.trim(),
+      settings.whisperModel,
+      language?.code ?? '',
+      settings.whisperApiKey,
+      glossaryVocabulary(glossary),
+    );
+  }
+  return new GeminiTranscriber(
+    genAI,
+    settings.transcriptionModel,
+    settings.transcriptLanguage,
+    buildGlossaryPrompt(glossary),
+  );
+}
+
+/**
+ * Checks that the key works with each of the chosen models, using token
+ * counting, which is free. Rejects with a classified GeminiError.
+ */
+export async function validateSettings(settings: AppSettings): Promise<void> {
+  const genAI = createGenAI(settings);
+  const models = new Set([
+    settings.transcriptionModel,
+    settings.polishingModel,
+  ]);
+  try {
+    await Promise.all(
+      Array.from(models).map((model) =>
+        genAI.models.countTokens({model, contents: 'test'}),
+      ),
+    );
+  } catch (error) {
+    throw classifyGeminiError(error);
+  }
+}
@@ -0,0 +1,559 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// IndexedDB-backed storage for notes and the source audio kept with each
+// note. The schema is versioned; each entry in MIGRATIONS upgrades the
+// database by one version.
+
+import {NoteEmbeddings} from './retrieval';
+import {NoteRevision} from './revisions';
+import {validateStudyMaterial} from './study';
+import {isTranscriberId} from './transcription';
+import {validateTranslations} from './translation';
+import {Folder, Note} from './types';
+import {UploadJob} from './uploads';
+import {validateGeneratedViews} from './views';
+
+const DB_NAME = 'voiceNotesDB';
+const AUDIO_STORE = 'audio';
+const NOTES_STORE = 'notes';
+const META_STORE = 'meta';
+const FOLDERS_STORE = 'folders';
+const REVISIONS_STORE = 'revisions';
+const EMBEDDINGS_STORE = 'embeddings';
+const UPLOADS_STORE = 'uploads';
+const MAX_REVISIONS_PER_NOTE = 50;
+const LEGACY_NOTES_KEY = 'voiceNotes';
+const LEGACY_IMPORTED_KEY = 'legacyNotesImported';
+
+const MIGRATIONS: Array<(db: IDBDatabase) => void> = [
+  // v1: source audio, keyed by note id.
+  (db) => db.createObjectStore(AUDIO_STORE),
+  // v2: notes move out of the localStorage `voiceNotes` blob.
+  (db) => {
+    const notes = db.createObjectStore(NOTES_STORE, {keyPath: 'id'});
+    notes.createIndex('timestamp', 'timestamp');
+    db.createObjectStore(META_STORE);
+  },
+  // v3: folders for organizing notes.
+  (db) => db.createObjectStore(FOLDERS_STORE, {keyPath: 'id'}),
+  // v4: revision history, looked up by note.
+  (db) => {
+    const revisions = db.createObjectStore(REVISIONS_STORE, {keyPath: 'id'});
+    revisions.createIndex('noteId', 'noteId');
+  },
+  // v5: note chunk embeddings for asking questions across notes.
+  (db) => db.createObjectStore(EMBEDDINGS_STORE, {keyPath: 'noteId'}),
+  // v6: the background upload queue, including the files not yet processed.
+  (db) => db.createObjectStore(UPLOADS_STORE, {keyPath: 'id'}),
+];
+const DB_VERSION = MIGRATIONS.length;
+
+export class StorageError extends Error {
+  constructor(
+    message: string,
+    readonly isQuotaExceeded: boolean,
+    cause?: unknown,
+  ) {
+    super(message, {cause});
+    this.name = 'StorageError';
+  }
+}
+
+function toStorageError(error: unknown): StorageError {
+  if (error instanceof StorageError) return error;
+  const name = error instanceof DOMException ? error.name : '';
+  if (name === 'QuotaExceededError') {
+    return new StorageError(
+      'Browser storage is full. Delete some notes to free up space.',
+      true,
+      error,
+    );
+  }
+  return new StorageError(
+    'Could not access browser storage. Your changes may not be saved.',
+    false,
+    error,
+  );
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](db);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+async function withStores<T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => Promise<T> | T,
+): Promise<T> {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(storeNames, mode);
+    const done = new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+    const [result] = await Promise.all([run(tx), done]);
+    return result;
+  } catch (error) {
+    throw toStorageError(error);
+  }
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  return withStores([storeName], mode, (tx) =>
+    requestToPromise(run(tx.objectStore(storeName))),
+  );
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function asStringArray(value: unknown): string[] | undefined {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object';
+}
+
+/**
+ * Checks a stored or imported record and normalizes it to a Note. Returns
+ * null for records that are missing an id or are not objects at all.
+ */
+export function validateNote(value: unknown): Note | null {
+  if (!value || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+  if (typeof record.id !== 'string' || !record.id) return null;
+  const note: Note = {
+    ...(record as Partial<Note>),
+    id: record.id,
+    title: asString(record.title),
+    rawTranscription: asString(record.rawTranscription),
+    polishedNote: asString(record.polishedNote),
+    timestamp:
+      typeof record.timestamp === 'number' && isFinite(record.timestamp)
+        ? record.timestamp
+        : Date.now(),
+  };
+  if (note.segments !== undefined) {
+    note.segments = Array.isArray(note.segments)
+      ? note.segments.filter(
+          (segment) =>
+            segment &&
+            typeof segment.start === 'number' &&
+            typeof segment.end === 'number' &&
+            typeof segment.speaker === 'string' &&
+            typeof segment.text === 'string',
+        )
+      : undefined;
+  }
+  if (note.study !== undefined) {
+    note.study = validateStudyMaterial(note.study);
+  }
+  if (note.views !== undefined) {
+    note.views = validateGeneratedViews(note.views);
+  }
+  if (note.translations !== undefined) {
+    note.translations = validateTranslations(note.translations);
+  }
+  if (note.language !== undefined && typeof note.language !== 'string') {
+    delete note.language;
+  }
+  if (note.folderId !== undefined && typeof note.folderId !== 'string') {
+    delete note.folderId;
+  }
+  if (note.transcriber !== undefined && !isTranscriberId(note.transcriber)) {
+    delete note.transcriber;
+  }
+  if (
+    note.audioParts !== undefined &&
+    !(
+      Array.isArray(note.audioParts) &&
+      note.audioParts.every((start) => typeof start === 'number')
+    )
+  ) {
+    delete note.audioParts;
+  }
+  if (note.glossaryCorrections !== undefined) {
+    note.glossaryCorrections = asStringArray(note.glossaryCorrections);
+  }
+  if (note.tags !== undefined) note.tags = asStringArray(note.tags);
+  if (note.suggestedTags !== undefined) {
+    note.suggestedTags = asStringArray(note.suggestedTags);
+  }
+  if (
+    note.failure !== undefined &&
+    !(
+      note.failure &&
+      (note.failure.step === 'transcription' ||
+        note.failure.step === 'polishing') &&
+      typeof note.failure.message === 'string'
+    )
+  ) {
+    delete note.failure;
+  }
+  if (
+    note.audioProcessing !== undefined &&
+    !(
+      note.audioProcessing &&
+      typeof note.audioProcessing.originalDuration === 'number' &&
+      typeof note.audioProcessing.originalSize === 'number' &&
+      typeof note.audioProcessing.processedDuration === 'number' &&
+      typeof note.audioProcessing.processedSize === 'number'
+    )
+  ) {
+    delete note.audioProcessing;
+  }
+  if (
+    note.pending !== undefined &&
+    !(
+      note.pending &&
+      (note.pending.step === 'transcription' ||
+        note.pending.step === 'polishing') &&
+      typeof note.pending.templateId === 'string'
+    )
+  ) {
+    delete note.pending;
+  }
+  return note;
+}
+
+export function validateFolder(value: unknown): Folder | null {
+  if (!value || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+  if (typeof record.id !== 'string' || !record.id) return null;
+  return {
+    id: record.id,
+    name: asString(record.name) || 'Untitled folder',
+    parentId:
+      typeof record.parentId === 'string' && record.parentId !== record.id
+        ? record.parentId
+        : null,
+  };
+}
+
+/**
+ * Copies notes from the old localStorage `voiceNotes` key into IndexedDB the
+ * first time the new storage is used. The old key is removed only after the
+ * import has committed.
+ */
+async function importLegacyNotes(): Promise<void> {
+  const imported = await withStore<unknown>(META_STORE, 'readonly', (store) =>
+    store.get(LEGACY_IMPORTED_KEY),
+  );
+  if (imported) return;
+
+  let legacy: unknown[] = [];
+  const saved = localStorage.getItem(LEGACY_NOTES_KEY);
+  if (saved) {
+    try {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) legacy = parsed;
+    } catch (error) {
+      console.warn('Could not parse legacy notes, skipping import:', error);
+    }
+  }
+
+  await withStores([NOTES_STORE, META_STORE], 'readwrite', (tx) => {
+    const notes = tx.objectStore(NOTES_STORE);
+    legacy.forEach((record) => {
+      const note = validateNote(record);
+      if (note) notes.put(note);
+    });
+    tx.objectStore(META_STORE).put(true, LEGACY_IMPORTED_KEY);
+  });
+  localStorage.removeItem(LEGACY_NOTES_KEY);
+}
+
+/**
+ * Loads every note, newest first. Records that fail validation are skipped
+ * and counted so the caller can tell the user.
+ */
+export async function loadNoteRecords(): Promise<{
+  notes: Note[];
+  skipped: number;
+}> {
+  await importLegacyNotes();
+  const records = await withStore<unknown[]>(NOTES_STORE, 'readonly', (store) =>
+    store.getAll(),
+  );
+  const notes: Note[] = [];
+  let skipped = 0;
+  records.forEach((record) => {
+    const note = validateNote(record);
+    if (note) notes.push(note);
+    else skipped++;
+  });
+  notes.sort((a, b) => b.timestamp - a.timestamp);
+  return {notes, skipped};
+}
+
+export async function saveNoteRecord(note: Note): Promise<void> {
+  await withStore(NOTES_STORE, 'readwrite', (store) => store.put(note));
+}
+
+/**
+ * Removes a note together with its stored audio, revision history and
+ * embeddings.
+ */
+export async function deleteNoteRecord(noteId: string): Promise<void> {
+  await withStores(
+    [NOTES_STORE, AUDIO_STORE, REVISIONS_STORE, EMBEDDINGS_STORE],
+    'readwrite',
+    (tx) => {
+      tx.objectStore(NOTES_STORE).delete(noteId);
+      deleteAudioParts(tx.objectStore(AUDIO_STORE), noteId);
+      tx.objectStore(EMBEDDINGS_STORE).delete(noteId);
+      const revisions = tx.objectStore(REVISIONS_STORE);
+      const request = revisions.index('noteId').getAllKeys(noteId);
+      request.onsuccess = () =>
+        request.result.forEach((key) => revisions.delete(key));
+    },
+  );
+}
+
+export async function clearNoteRecords(): Promise<void> {
+  await withStores(
+    [NOTES_STORE, AUDIO_STORE, REVISIONS_STORE, EMBEDDINGS_STORE],
+    'readwrite',
+    (tx) => {
+      tx.objectStore(NOTES_STORE).clear();
+      tx.objectStore(AUDIO_STORE).clear();
+      tx.objectStore(REVISIONS_STORE).clear();
+      tx.objectStore(EMBEDDINGS_STORE).clear();
+    },
+  );
+}
+
+function isRevision(value: unknown): value is NoteRevision {
+  return (
+    isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.noteId === 'string' &&
+    typeof value.timestamp === 'number' &&
+    (value.source === 'model' || value.source === 'user') &&
+    typeof value.polishedNote === 'string' &&
+    typeof value.rawTranscription === 'string'
+  );
+}
+
+/** Loads a note's revisions, newest first. */
+export async function loadRevisions(noteId: string): Promise<NoteRevision[]> {
+  const records = await withStore<unknown[]>(
+    REVISIONS_STORE,
+    'readonly',
+    (store) => store.index('noteId').getAll(noteId),
+  );
+  return records
+    .filter(isRevision)
+    .map((revision) => ({
+      ...revision,
+      title: asString(revision.title),
+      label: asString(revision.label),
+    }))
+    .sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Adds or replaces a revision. Once a note has more than
+ * MAX_REVISIONS_PER_NOTE revisions the oldest ones are dropped.
+ */
+export async function saveRevision(revision: NoteRevision): Promise<void> {
+  await withStores([REVISIONS_STORE], 'readwrite', (tx) => {
+    const store = tx.objectStore(REVISIONS_STORE);
+    store.put(revision);
+    const request = store.index('noteId').getAll(revision.noteId);
+    request.onsuccess = () => {
+      const revisions = request.result as NoteRevision[];
+      revisions
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(MAX_REVISIONS_PER_NOTE)
+        .forEach((old) => store.delete(old.id));
+    };
+  });
+}
+
+function isEmbeddingRecord(value: unknown): value is NoteEmbeddings {
+  return (
+    isRecord(value) &&
+    typeof value.noteId === 'string' &&
+    typeof value.model === 'string' &&
+    typeof value.contentHash === 'string' &&
+    Array.isArray(value.chunks) &&
+    value.chunks.every(
+      (chunk: unknown) =>
+        isRecord(chunk) &&
+        typeof chunk.text === 'string' &&
+        chunk.vector instanceof Float32Array,
+    )
+  );
+}
+
+export async function loadEmbeddingRecords(): Promise<NoteEmbeddings[]> {
+  const records = await withStore<unknown[]>(
+    EMBEDDINGS_STORE,
+    'readonly',
+    (store) => store.getAll(),
+  );
+  return records.filter(isEmbeddingRecord);
+}
+
+export async function saveEmbeddingRecord(
+  record: NoteEmbeddings,
+): Promise<void> {
+  await withStore(EMBEDDINGS_STORE, 'readwrite', (store) => store.put(record));
+}
+
+const UPLOAD_STATUSES = [
+  'queued',
+  'transcribing',
+  'polishing',
+  'done',
+  'failed',
+];
+
+function isUploadJob(value: unknown): value is UploadJob {
+  return (
+    isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.fileName === 'string' &&
+    typeof value.status === 'string' &&
+    UPLOAD_STATUSES.includes(value.status) &&
+    typeof value.createdAt === 'number' &&
+    typeof value.templateId === 'string' &&
+    (value.audio === undefined || value.audio instanceof Blob)
+  );
+}
+
+export async function loadUploadRecords(): Promise<UploadJob[]> {
+  const records = await withStore<unknown[]>(
+    UPLOADS_STORE,
+    'readonly',
+    (store) => store.getAll(),
+  );
+  return records.filter(isUploadJob);
+}
+
+export async function saveUploadRecord(job: UploadJob): Promise<void> {
+  await withStore(UPLOADS_STORE, 'readwrite', (store) => store.put(job));
+}
+
+export async function deleteUploadRecord(id: string): Promise<void> {
+  await withStore(UPLOADS_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+export async function loadFolderRecords(): Promise<Folder[]> {
+  const records = await withStore<unknown[]>(
+    FOLDERS_STORE,
+    'readonly',
+    (store) => store.getAll(),
+  );
+  return records
+    .map(validateFolder)
+    .filter((folder): folder is Folder => !!folder);
+}
+
+export async function saveFolderRecord(folder: Folder): Promise<void> {
+  await withStore(FOLDERS_STORE, 'readwrite', (store) => store.put(folder));
+}
+
+export async function deleteFolderRecord(folderId: string): Promise<void> {
+  await withStore(FOLDERS_STORE, 'readwrite', (store) =>
+    store.delete(folderId),
+  );
+}
+
+/**
+ * The key of one of a note's audio parts. Part 0 is the note's first
+ * recording; recordings added to the note later are kept as parts 1, 2...
+ */
+function audioKey(noteId: string, part: number): string {
+  return part === 0 ? noteId : `${noteId}#${part}`;
+}
+
+function deleteAudioParts(store: IDBObjectStore, noteId: string): void {
+  store.delete(noteId);
+  store.delete(IDBKeyRange.bound(`${noteId}#`, `${noteId}#\uffff`));
+}
+
+export async function saveAudio(
+  noteId: string,
+  audio: Blob,
+  part = 0,
+): Promise<void> {
+  await withStore(AUDIO_STORE, 'readwrite', (store) =>
+    store.put(audio, audioKey(noteId, part)),
+  );
+}
+
+/** Removes every audio part of a note. */
+export async function deleteAudio(noteId: string): Promise<void> {
+  await withStores([AUDIO_STORE], 'readwrite', (tx) =>
+    deleteAudioParts(tx.objectStore(AUDIO_STORE), noteId),
+  );
+}
+
+export async function loadAudio(
+  noteId: string,
+  part = 0,
+): Promise<Blob | null> {
+  const audio = await withStore<Blob | undefined>(
+    AUDIO_STORE,
+    'readonly',
+    (store) => store.get(audioKey(noteId, part)),
+  );
+  return audio ?? null;
+}
+
+/**
+ * Loads a note's first recording and the `added` parts after it, in order.
+ * Stops at the first part that is missing.
+ */
+export async function loadAudioParts(
+  noteId: string,
+  added: number,
+): Promise<Blob[]> {
+  const parts: Blob[] = [];
+  for (let part = 0; part <= added; part++) {
+    const audio = await loadAudio(noteId, part);
+    if (!audio) break;
+    parts.push(audio);
+  }
+  return parts;
+}
@@ -0,0 +1,218 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Flashcards and practice questions generated from a polished note, and the
+// Anki text export for them.
+
+import {Schema, Type} from '@google/genai';
+
+export type StudyCardType = 'cloze' | 'basic';
+
+export interface StudyCard {
+  type: StudyCardType;
+  // For cloze cards `front` holds the text with {{c1::...}} deletions and
+  // `back` holds optional extra context.
+  front: string;
+  back: string;
+}
+
+export interface PracticeQuestion {
+  stem: string;
+  options: string[];
+  answerIndex: number;
+  explanation: string;
+}
+
+export interface StudyMaterial {
+  cards: StudyCard[];
+  questions: PracticeQuestion[];
+  generatedAt: number;
+}
+
+export const STUDY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    cards: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: {type: Type.STRING, enum: ['cloze', 'basic']},
+          front: {
+            type: Type.STRING,
+            description:
+              'Question for basic cards, or the full sentence with Anki cloze deletions ({{c1::answer}}) for cloze cards.',
+          },
+          back: {
+            type: Type.STRING,
+            description:
+              'Answer for basic cards, or brief extra context for cloze cards.',
+          },
+        },
+        required: ['type', 'front', 'back'],
+        propertyOrdering: ['type', 'front', 'back'],
+      },
+    },
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          stem: {
+            type: Type.STRING,
+            description: 'Clinical vignette ending with a question.',
+          },
+          options: {type: Type.ARRAY, items: {type: Type.STRING}},
+          answerIndex: {
+            type: Type.INTEGER,
+            description: 'Zero-based index of the correct option.',
+          },
+          explanation: {
+            type: Type.STRING,
+            description:
+              'Why the answer is correct and why each distractor is wrong.',
+          },
+        },
+        required: ['stem', 'options', 'answerIndex', 'explanation'],
+        propertyOrdering: ['stem', 'options', 'answerIndex', 'explanation'],
+      },
+    },
+  },
+  required: ['cards', 'questions'],
+  propertyOrdering: ['cards', 'questions'],
+};
+
+export function buildStudyPrompt(noteMarkdown: string): string {
+  return `You are helping a medical student study for the USMLE. From the note below, create:
+1. Flashcards covering every high-yield fact. Prefer cloze cards (Anki syntax {{c1::answer}}, one to three deletions per card) for facts, associations and lists; use basic front/back cards for "why" and "how" questions. Keep each card atomic.
+2. USMLE-style multiple-choice questions: a clinical vignette stem, five answer options, the zero-based index of the correct option and an explanation covering each option.
+Only use information supported by the note. Note:
+${noteMarkdown}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object';
+}
+
+function isCard(value: unknown): value is StudyCard {
+  return (
+    isRecord(value) &&
+    (value.type === 'cloze' || value.type === 'basic') &&
+    typeof value.front === 'string' &&
+    typeof value.back === 'string'
+  );
+}
+
+function isQuestion(value: unknown): value is PracticeQuestion {
+  return (
+    isRecord(value) &&
+    typeof value.stem === 'string' &&
+    Array.isArray(value.options) &&
+    value.options.every((option: unknown) => typeof option === 'string') &&
+    typeof value.answerIndex === 'number' &&
+    value.answerIndex >= 0 &&
+    value.answerIndex < value.options.length &&
+    typeof value.explanation === 'string'
+  );
+}
+
+/** Parses and validates the model's study response. */
+export function parseStudyMaterial(json: string): StudyMaterial {
+  const data: unknown = JSON.parse(json);
+  const record = isRecord(data) ? data : {};
+  const cards = Array.isArray(record.cards) ? record.cards.filter(isCard) : [];
+  const questions = Array.isArray(record.questions)
+    ? record.questions.filter(isQuestion)
+    : [];
+  return {
+    cards: cards.map(({type, front, back}) => ({type, front, back})),
+    questions: questions.map(({stem, options, answerIndex, explanation}) => ({
+      stem,
+      options,
+      answerIndex,
+      explanation,
+    })),
+    generatedAt: Date.now(),
+  };
+}
+
+export function validateStudyMaterial(
+  value: unknown,
+): StudyMaterial | undefined {
+  if (!isRecord(value)) return undefined;
+  return {
+    cards: Array.isArray(value.cards) ? value.cards.filter(isCard) : [],
+    questions: Array.isArray(value.questions)
+      ? value.questions.filter(isQuestion)
+      : [],
+    generatedAt:
+      typeof value.generatedAt === 'number' ? value.generatedAt : Date.now(),
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+// Fields are HTML; tabs and newlines would break the row layout.
+function toField(text: string): string {
+  return escapeHtml(text.trim()).replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+}
+
+function toTag(title: string): string {
+  return (
+    title
+      .trim()
+      .replace(/\s+/g, '_')
+      .replace(/[^\w:-]/g, '') || 'note'
+  );
+}
+
+/**
+ * Builds a tab-separated file that Anki (2.1.55+) imports directly. The
+ * header lines tell Anki which column holds the note type and tags, so cloze
+ * and basic cards can share one file. Practice questions become basic cards
+ * with the options on the front.
+ */
+export function studyToAnkiText(
+  material: StudyMaterial,
+  noteTitle: string,
+): string {
+  const tags = `voice-notes ${toTag(noteTitle)}`;
+  const letters = 'ABCDEFGHIJ';
+  const rows = [
+    ...material.cards.map((card) =>
+      [
+        card.type === 'cloze' ? 'Cloze' : 'Basic',
+        toField(card.front),
+        toField(card.back),
+        tags,
+      ].join('\t'),
+    ),
+    ...material.questions.map((question) => {
+      const options = question.options
+        .map((option, i) => `${letters[i]}. ${toField(option)}`)
+        .join('<br>');
+      const answer = `${letters[question.answerIndex]}. ${toField(question.options[question.answerIndex])}`;
+      return [
+        'Basic',
+        `${toField(question.stem)}<br><br>${options}`,
+        `<b>${answer}</b><br><br>${toField(question.explanation)}`,
+        `${tags} practice_question`,
+      ].join('\t');
+    }),
+  ];
+  return [
+    '#separator:tab',
+    '#html:true',
+    '#notetype column:1',
+    '#tags column:4',
+    ...rows,
+  ].join('\n');
+}
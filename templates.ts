@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Polishing templates: built-in presets plus user-created templates kept in
+// localStorage alongside the other settings.
+
+import {GlossaryTerm, buildGlossaryPrompt} from './glossary';
+
+export interface PolishTemplate {
+  id: string;
+  name: string;
+  instructions: string;
+  builtIn?: boolean;
+}
+
+const USER_TEMPLATES_KEY = 'polishTemplates';
+const DEFAULT_TEMPLATE_KEY = 'polishTemplateId';
+
+export const DEFAULT_TEMPLATE_ID = 'general';
+
+export const BUILT_IN_TEMPLATES: PolishTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'General note',
+    builtIn: true,
+    instructions:
+      'Take this raw transcription and create a polished, well-formatted note. Remove filler words, repetitions, and false starts. Format lists and use markdown for headings. Maintain original content and meaning.',
+  },
+  {
+    id: 'soap',
+    name: 'SOAP note',
+    builtIn: true,
+    instructions:
+      'Turn this raw transcription of a patient encounter into a SOAP note in markdown. Start with a level-1 heading naming the chief complaint, then use "Subjective", "Objective", "Assessment" and "Plan" as level-2 headings. Use bullet points, standard medical abbreviations and a numbered problem list in the assessment. Do not invent findings that are not in the transcription; write "Not discussed" where a section has no information.',
+  },
+  {
+    id: 'lecture',
+    name: 'Lecture outline',
+    builtIn: true,
+    instructions:
+      'Turn this raw lecture transcription into a hierarchical study outline in markdown. Start with a level-1 heading giving the lecture topic, use level-2 headings for major sections and nested bullet points for details. Bold key terms, keep every fact, number, mechanism and clinical correlation the lecturer mentions, and drop asides and logistics.',
+  },
+  {
+    id: 'case',
+    name: 'Case presentation',
+    builtIn: true,
+    instructions:
+      'Turn this raw transcription into a structured case presentation in markdown with a level-1 heading summarizing the case and level-2 headings for: One-liner, History of Present Illness, Past Medical History, Medications, Allergies, Social and Family History, Review of Systems, Physical Exam, Labs and Imaging, Assessment and Plan, and Teaching Points. Leave out headings for which the transcription has no information.',
+  },
+  {
+    id: 'minutes',
+    name: 'Meeting minutes',
+    builtIn: true,
+    instructions:
+      'Turn this raw transcription of a meeting into minutes in markdown. Start with a level-1 heading naming the meeting, then level-2 headings for Attendees, Agenda, Discussion (one bullet per topic), Decisions and Action Items. Write each action item as a checklist entry ("- [ ]") with the owner and due date when mentioned.',
+  },
+  {
+    id: 'high-yield',
+    name: 'High-yield summary',
+    builtIn: true,
+    instructions:
+      'Turn this raw transcription into a First Aid-style high-yield summary in markdown. Start with a level-1 heading for the topic, then group facts under short level-2 headings. Be terse: use bullet fragments rather than sentences, arrows (↑, ↓, →) for relationships, bold the buzzwords and classic associations, and add a markdown table wherever items can be compared (e.g. drugs, mechanisms, side effects). Keep only testable facts.',
+  },
+];
+
+function isTemplate(value: unknown): value is PolishTemplate {
+  if (!value || typeof value !== 'object') return false;
+  const template = value as Record<string, unknown>;
+  return (
+    typeof template.id === 'string' &&
+    typeof template.name === 'string' &&
+    typeof template.instructions === 'string'
+  );
+}
+
+export function loadUserTemplates(): PolishTemplate[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(USER_TEMPLATES_KEY) || '[]');
+    return Array.isArray(saved)
+      ? saved
+          .filter(isTemplate)
+          .map(({id, name, instructions}) => ({id, name, instructions}))
+      : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+export function saveUserTemplates(templates: PolishTemplate[]): void {
+  localStorage.setItem(
+    USER_TEMPLATES_KEY,
+    JSON.stringify(
+      templates.map(({id, name, instructions}) => ({id, name, instructions})),
+    ),
+  );
+}
+
+export function loadDefaultTemplateId(): string {
+  return localStorage.getItem(DEFAULT_TEMPLATE_KEY) || DEFAULT_TEMPLATE_ID;
+}
+
+export function saveDefaultTemplateId(id: string): void {
+  localStorage.setItem(DEFAULT_TEMPLATE_KEY, id);
+}
+
+export function buildPolishPrompt(
+  template: PolishTemplate,
+  rawText: string,
+  glossary: GlossaryTerm[] = [],
+  // Language to write the note in; empty to keep the transcript's language.
+  language = '',
+): string {
+  const languagePrompt = language
+    ? ` Write the note, including its headings, in ${language}, translating the transcription if it is in another language.`
+    : ' Write the note in the language of the transcription.';
+  return `${template.instructions}${buildGlossaryPrompt(glossary)}${languagePrompt} Raw transcription: ${rawText}`;
+}
+
+/**
+ * Picks a note title from polished markdown: the first heading, or else the
+ * start of the first line with some text. Returns '' if there is neither.
+ */
+export function deriveNoteTitle(polishedText: string): string {
+  const lines = polishedText.split('\n').map((l) => l.trim());
+  for (const line of lines) {
+    if (line.startsWith('#')) {
+      const title = line.replace(/^#+\s+/, '').trim();
+      if (title) return title;
+    }
+  }
+  for (const line of lines) {
+    if (line.length > 0) {
+      const potentialTitle = line
+        .replace(/^[\*_\`#\->\s\[\]\(.\d)]+/, '')
+        .trim();
+      if (potentialTitle.length > 3) {
+        const maxLength = 60;
+        return (
+          potentialTitle.substring(0, maxLength) +
+          (potentialTitle.length > maxLength ? '...' : '')
+        );
+      }
+    }
+  }
+  return '';
+}
@@ -0,0 +1,247 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {Schema, Type} from '@google/genai';
+
+export interface TranscriptSegment {
+  start: number; // seconds from the start of the recording
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+export const TRANSCRIPT_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      start: {
+        type: Type.STRING,
+        description: 'Segment start time as MM:SS or HH:MM:SS.',
+      },
+      end: {
+        type: Type.STRING,
+        description: 'Segment end time as MM:SS or HH:MM:SS.',
+      },
+      speaker: {
+        type: Type.STRING,
+        description: 'Speaker label, e.g. "Speaker 1", "Speaker 2".',
+      },
+      language: {
+        type: Type.STRING,
+        description:
+          'English name of the language spoken in this segment, e.g. "English", "Spanish", "Hindi".',
+      },
+      text: {
+        type: Type.STRING,
+        description: 'Verbatim text spoken in this segment.',
+      },
+    },
+    required: ['start', 'end', 'speaker', 'language', 'text'],
+    propertyOrdering: ['start', 'end', 'speaker', 'language', 'text'],
+  },
+};
+
+// ISO 639-1 codes are what Whisper servers expect.
+export const TRANSCRIPT_LANGUAGES: Array<{name: string; code: string}> = [
+  {name: 'Arabic', code: 'ar'},
+  {name: 'Chinese', code: 'zh'},
+  {name: 'Dutch', code: 'nl'},
+  {name: 'English', code: 'en'},
+  {name: 'French', code: 'fr'},
+  {name: 'German', code: 'de'},
+  {name: 'Hindi', code: 'hi'},
+  {name: 'Italian', code: 'it'},
+  {name: 'Japanese', code: 'ja'},
+  {name: 'Korean', code: 'ko'},
+  {name: 'Polish', code: 'pl'},
+  {name: 'Portuguese', code: 'pt'},
+  {name: 'Russian', code: 'ru'},
+  {name: 'Spanish', code: 'es'},
+  {name: 'Turkish', code: 'tr'},
+];
+
+export const TRANSCRIPT_PROMPT =
+  'Generate a complete, detailed transcript of this audio. Split it into ' +
+  'segments at natural pauses or speaker changes. For each segment give the ' +
+  'start and end time, a consistent speaker label ("Speaker 1", "Speaker 2", ' +
+  '...) and the verbatim text.';
+
+/** The transcript prompt, told the spoken language if one is set. */
+export function buildTranscriptPrompt(language: string): string {
+  return language
+    ? `${TRANSCRIPT_PROMPT} The speech is in ${language}; transcribe it in ${language} without translating it.`
+    : TRANSCRIPT_PROMPT;
+}
+
+export function parseTimestamp(value: unknown): number {
+  if (typeof value === 'number') return Math.max(0, value);
+  if (typeof value !== 'string') return 0;
+  const parts = value.trim().split(':').map(Number);
+  if (parts.some((part) => isNaN(part))) return 0;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+/**
+ * Parses the model's structured transcript response. Returns null when the
+ * response is not a usable segment list so callers can fall back to plain
+ * text.
+ */
+export function parseTranscriptSegments(
+  json: string,
+): TranscriptSegment[] | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    return null;
+  }
+  if (!Array.isArray(data)) return null;
+  const segments: TranscriptSegment[] = [];
+  for (const item of data) {
+    if (!item || typeof item.text !== 'string' || !item.text.trim()) continue;
+    const start = parseTimestamp(item.start);
+    segments.push({
+      start,
+      end: Math.max(start, parseTimestamp(item.end)),
+      speaker:
+        typeof item.speaker === 'string' && item.speaker.trim()
+          ? item.speaker.trim()
+          : 'Speaker 1',
+      text: item.text.trim(),
+    });
+  }
+  return segments.length > 0 ? segments : null;
+}
+
+/** The language named most often, or undefined if there are none. */
+export function mostCommonLanguage(
+  languages: Array<string | undefined>,
+): string | undefined {
+  const counts = new Map<string, number>();
+  languages.forEach((language) => {
+    const name = language?.trim().toLowerCase();
+    if (!name) return;
+    // Whisper servers may give an ISO code, and differ in capitalization.
+    const key =
+      TRANSCRIPT_LANGUAGES.find(({code}) => code === name)?.name ??
+      name.charAt(0).toUpperCase() + name.slice(1);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  let best: string | undefined;
+  counts.forEach((count, language) => {
+    if (!best || count > counts.get(best)!) best = language;
+  });
+  return best;
+}
+
+/** The language spoken in most segments of a transcript response. */
+export function parseTranscriptLanguage(json: string): string | undefined {
+  try {
+    const data = JSON.parse(json);
+    return Array.isArray(data)
+      ? mostCommonLanguage(data.map((item) => item?.language))
+      : undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Parses the complete segments out of a transcript response that is still
+ * streaming in, by closing the JSON array after the last finished object.
+ */
+export function parsePartialSegments(json: string): TranscriptSegment[] | null {
+  const lastBrace = json.lastIndexOf('}');
+  if (lastBrace < 0) return null;
+  return parseTranscriptSegments(json.slice(0, lastBrace + 1) + ']');
+}
+
+export function segmentsToText(segments: TranscriptSegment[]): string {
+  return segments
+    .map((segment) => `${segment.speaker}: ${segment.text}`)
+    .join('\n');
+}
+
+export function getSpeakers(segments: TranscriptSegment[]): string[] {
+  return Array.from(new Set(segments.map((segment) => segment.speaker)));
+}
+
+/**
+ * Adds the transcript of a later recording after an existing transcript.
+ * The new segments are shifted by `offset`, the time at which the recording
+ * starts in the note's audio. If either side is plain text without
+ * segments, the texts are joined instead.
+ */
+export function appendTranscript(
+  existing: {segments?: TranscriptSegment[]; text: string},
+  added: {segments: TranscriptSegment[] | null; text: string},
+  offset: number,
+): {segments: TranscriptSegment[] | null; text: string} {
+  if (existing.segments?.length && added.segments) {
+    const segments = [
+      ...existing.segments,
+      ...added.segments.map((segment) => ({
+        ...segment,
+        start: segment.start + offset,
+        end: segment.end + offset,
+      })),
+    ];
+    return {segments, text: segmentsToText(segments)};
+  }
+  return {
+    segments: null,
+    text: [existing.text.trim(), added.text.trim()]
+      .filter(Boolean)
+      .join('\n\n'),
+  };
+}
+
+/** The segments with their start and end times passed through `toTime`. */
+export function mapSegmentTimes(
+  segments: TranscriptSegment[],
+  toTime: (seconds: number) => number,
+): TranscriptSegment[] {
+  return segments.map((segment) => ({
+    ...segment,
+    start: toTime(segment.start),
+    end: toTime(segment.end),
+  }));
+}
+
+export function findSegmentIndexAt(
+  segments: TranscriptSegment[],
+  time: number,
+): number {
+  for (let i = segments.length - 1; i >= 0; i--) {
+    if (segments[i].start <= time) {
+      return time <= Math.max(segments[i].end, segments[i].start + 1) ? i : -1;
+    }
+  }
+  return -1;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function replaceSpeakerName(
+  text: string,
+  oldName: string,
+  newName: string,
+): string {
+  const pattern = new RegExp(`(^|[^\\w])${escapeRegExp(oldName)}(?!\\w)`, 'g');
+  return text.replace(pattern, (_match, prefix) => `${prefix}${newName}`);
+}
@@ -0,0 +1,251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Transcription providers. Gemini is the default; recordings that must not
+// leave the local network can go to a self-hosted server that implements
+// OpenAI's /v1/audio/transcriptions endpoint, such as whisper.cpp's server.
+
+import {GoogleGenAI} from '@google/genai';
+import {GeminiError, describeRetry, withRetry} from './errors';
+import {abortable, streamGeneratedText} from './generation';
+import {
+  TRANSCRIPT_SCHEMA,
+  TranscriptSegment,
+  buildTranscriptPrompt,
+  mostCommonLanguage,
+  parsePartialSegments,
+  parseTranscriptLanguage,
+  parseTranscriptSegments,
+  segmentsToText,
+} from './transcript';
+
+// Inline requests are limited to 20 MB, which base64 encoding brings down to
+// about 15 MB of audio.
+export const MAX_INLINE_AUDIO_BYTES = 15 * 1024 * 1024;
+
+export type TranscriberId = 'gemini' | 'whisper';
+
+export const TRANSCRIBER_LABELS: Record<TranscriberId, string> = {
+  gemini: 'Gemini',
+  whisper: 'Local Whisper server',
+};
+
+export function isTranscriberId(value: unknown): value is TranscriberId {
+  return value === 'gemini' || value === 'whisper';
+}
+
+export interface TranscriptResult {
+  // Null if the response could not be read as timed segments.
+  segments: TranscriptSegment[] | null;
+  text: string;
+  // English name of the detected spoken language, e.g. "Spanish".
+  language?: string;
+}
+
+export interface Transcriber {
+  /**
+   * Transcribes one part of a recording. `onPartial` is called with the
+   * segments received so far if the provider streams them, and `onStatus`
+   * with retry messages. Rejects with a GeminiError, or with the signal's
+   * reason if it aborts.
+   */
+  transcribe(
+    audio: Blob,
+    signal: AbortSignal,
+    onPartial?: (segments: TranscriptSegment[]) => void,
+    onStatus?: (status: string) => void,
+  ): Promise<TranscriptResult>;
+}
+
+export async function blobToBase64(audioBlob: Blob): Promise<string> {
+  const reader = new FileReader();
+  const readResult = new Promise<string>((resolve, reject) => {
+    reader.onloadend = () => {
+      const base64data = reader.result as string;
+      resolve(base64data.split(',')[1]);
+    };
+    reader.onerror = () => reject(reader.error);
+  });
+  reader.readAsDataURL(audioBlob);
+  const base64Audio = await readResult;
+  if (!base64Audio || !audioBlob.type)
+    throw new Error('Audio conversion failed');
+  return base64Audio;
+}
+
+export class GeminiTranscriber implements Transcriber {
+  constructor(
+    private readonly genAI: GoogleGenAI,
+    private readonly model: string,
+    // Language name for the prompt; empty to let the model detect it.
+    private readonly language: string,
+    // Appended to the prompt, e.g. the glossary of terms to expect.
+    private readonly promptSuffix = '',
+  ) {}
+
+  async transcribe(
+    audio: Blob,
+    signal: AbortSignal,
+    onPartial?: (segments: TranscriptSegment[]) => void,
+    onStatus?: (status: string) => void,
+  ): Promise<TranscriptResult> {
+    if (!audio.type) throw new GeminiError('unsupported-type');
+    if (audio.size > MAX_INLINE_AUDIO_BYTES) throw new GeminiError('too-large');
+    const base64Audio = await abortable(blobToBase64(audio), signal);
+    const contents = [
+      {text: buildTranscriptPrompt(this.language) + this.promptSuffix},
+      {inlineData: {mimeType: audio.type, data: base64Audio}},
+    ];
+    const responseText = await withRetry(
+      () =>
+        streamGeneratedText(
+          this.genAI,
+          {
+            model: this.model,
+            contents: contents,
+            config: {
+              responseMimeType: 'application/json',
+              responseSchema: TRANSCRIPT_SCHEMA,
+            },
+          },
+          signal,
+          onPartial &&
+            ((text) => {
+              const partial = parsePartialSegments(text);
+              if (partial) onPartial(partial);
+            }),
+        ),
+      signal,
+      (error, delayMs) => onStatus?.(describeRetry(error, delayMs)),
+    );
+    const segments = parseTranscriptSegments(responseText);
+    return {
+      segments,
+      text: segments ? segmentsToText(segments) : responseText.trim(),
+      language: parseTranscriptLanguage(responseText),
+    };
+  }
+}
+
+interface WhisperResponse {
+  text?: string;
+  // The detected language's English name, e.g. "spanish".
+  language?: string;
+  // Only present with response_format=verbose_json.
+  segments?: Array<{start?: number; end?: number; text?: string}>;
+}
+
+/**
+ * Sends audio to an OpenAI-compatible transcription endpoint. Whisper does
+ * not tell speakers apart, so every segment is attributed to "Speaker 1".
+ */
+export class WhisperTranscriber implements Transcriber {
+  constructor(
+    private readonly url: string,
+    private readonly model: string,
+    // ISO 639-1 code; empty to let the server detect the language.
+    private readonly language: string,
+    private readonly apiKey: string,
+    // Words to expect, which Whisper uses to spell them correctly.
+    private readonly vocabulary = '',
+  ) {}
+
+  async transcribe(
+    audio: Blob,
+    signal: AbortSignal,
+    onPartial?: (segments: TranscriptSegment[]) => void,
+    onStatus?: (status: string) => void,
+  ): Promise<TranscriptResult> {
+    if (!this.url) {
+      throw new GeminiError(
+        'auth',
+        'No transcription server is set. Add its URL in Settings.',
+      );
+    }
+    const response = await withRetry(
+      () => this.request(audio, signal),
+      signal,
+      (error, delayMs) => onStatus?.(describeRetry(error, delayMs)),
+    );
+    const segments = (response.segments ?? [])
+      .filter((segment) => segment.text?.trim())
+      .map((segment) => ({
+        start: Number(segment.start) || 0,
+        end: Number(segment.end) || 0,
+        speaker: 'Speaker 1',
+        text: segment.text!.trim(),
+      }));
+    const language = mostCommonLanguage([response.language]);
+    if (segments.length) {
+      onPartial?.(segments);
+      return {segments, text: segmentsToText(segments), language};
+    }
+    return {segments: null, text: response.text?.trim() ?? '', language};
+  }
+
+  private async request(
+    audio: Blob,
+    signal: AbortSignal,
+  ): Promise<WhisperResponse> {
+    const form = new FormData();
+    // Servers use the file name's extension to pick a decoder.
+    const extension = audio.type.split('/')[1]?.split(';')[0] || 'wav';
+    form.append('file', audio, `audio.${extension}`);
+    form.append('model', this.model);
+    form.append('response_format', 'verbose_json');
+    if (this.language) form.append('language', this.language);
+    if (this.vocabulary) form.append('prompt', this.vocabulary);
+
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        body: form,
+        headers: this.apiKey ? {Authorization: `Bearer ${this.apiKey}`} : {},
+        signal,
+      });
+    } catch (error) {
+      if (signal.aborted) throw error;
+      // A local server being down says nothing about the internet
+      // connection, so this is not a 'network' error.
+      throw new GeminiError(
+        'server',
+        `Could not reach the transcription server at ${this.url}.`,
+        error,
+      );
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new GeminiError(
+        'auth',
+        'The transcription server rejected the API key. Check it in Settings.',
+      );
+    }
+    if (response.status === 429) {
+      throw new GeminiError('rate-limit', 'The transcription server is busy.');
+    }
+    if (response.status >= 500) {
+      throw new GeminiError(
+        'server',
+        `The transcription server failed (status ${response.status}).`,
+      );
+    }
+    if (!response.ok) {
+      throw new GeminiError(
+        'unknown',
+        `The transcription server refused the request (status ${response.status}).`,
+      );
+    }
+    try {
+      return (await response.json()) as WhisperResponse;
+    } catch (error) {
+      throw new GeminiError(
+        'unknown',
+        'The transcription server returned an unreadable response.',
+        error,
+      );
+    }
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Translations of a note's polished text, shown side by side with the
+// original. A note keeps at most one translation per language.
+
+import {hashNoteContent} from './retrieval';
+import {Note} from './types';
+import {getViewSource} from './views';
+
+export interface NoteTranslation {
+  // English name of the language, e.g. "Spanish".
+  language: string;
+  markdown: string;
+  generatedAt: number;
+  // hashNoteContent of the note the translation was made from.
+  contentHash: string;
+}
+
+export function buildTranslationPrompt(note: Note, language: string): string {
+  return `Translate this markdown note into ${language}. Keep the markdown structure, headings, lists and formatting exactly as they are, translate the headings too, and keep names, drug names, units and numbers unchanged. Output only the translated note. Note: ${getViewSource(note)}`;
+}
+
+/** True if the note has changed since it was translated. */
+export function isTranslationStale(
+  translation: NoteTranslation,
+  note: Note,
+): boolean {
+  return translation.contentHash !== hashNoteContent(note);
+}
+
+/** Adds a translation, replacing any earlier one into the same language. */
+export function upsertTranslation(
+  translations: NoteTranslation[] | undefined,
+  translation: NoteTranslation,
+): NoteTranslation[] {
+  return [
+    ...(translations ?? []).filter(
+      ({language}) => language !== translation.language,
+    ),
+    translation,
+  ].sort((a, b) => a.language.localeCompare(b.language));
+}
+
+export function validateTranslations(
+  value: unknown,
+): NoteTranslation[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .filter(
+      (item) =>
+        item &&
+        typeof item.language === 'string' &&
+        typeof item.markdown === 'string' &&
+        typeof item.generatedAt === 'number',
+    )
+    .map((item) => ({
+      language: item.language,
+      markdown: item.markdown,
+      generatedAt: item.generatedAt,
+      contentHash: typeof item.contentHash === 'string' ? item.contentHash : '',
+    }));
+}
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {GeminiErrorKind} from './errors';
+import {AudioProcessingStats} from './preprocess';
+import {StudyMaterial} from './study';
+import {TranscriptSegment} from './transcript';
+import {TranscriberId} from './transcription';
+import {NoteTranslation} from './translation';
+import {GeneratedView, NoteViewId} from './views';
+
+export interface Note {
+  id: string;
+  title: string;
+  rawTranscription: string;
+  polishedNote: string;
+  timestamp: number;
+  updatedAt?: number;
+  hasAudio?: boolean;
+  // Start times, in seconds, of the recordings added to the note after its
+  // first one. Each is stored as its own audio part.
+  audioParts?: number[];
+  // How much preprocessing shrank the audio sent for transcription.
+  audioProcessing?: AudioProcessingStats;
+  segments?: TranscriptSegment[];
+  // English name of the language detected in the recording, e.g. "Hindi".
+  language?: string;
+  // Glossary terms the transcript was corrected to, highlighted for review.
+  glossaryCorrections?: string[];
+  study?: StudyMaterial;
+  // Summary, key points and the other views, generated when first opened.
+  views?: Partial<Record<NoteViewId, GeneratedView>>;
+  translations?: NoteTranslation[];
+  polishTemplateId?: string;
+  polishTemplateName?: string;
+  // Overrides the default transcriber from the settings.
+  transcriber?: TranscriberId;
+  folderId?: string;
+  tags?: string[];
+  // Tags proposed by Gemini after polishing that the user has not yet
+  // accepted or dismissed.
+  suggestedTags?: string[];
+  // Set while transcribing or polishing the note's audio has failed, so it
+  // can be retried later from the sidebar.
+  failure?: NoteFailure;
+  // Set for a recording made without a network connection. Its audio is
+  // transcribed and polished automatically once the connection is back.
+  pending?: PendingProcessing;
+}
+
+export interface NoteFailure {
+  step: 'transcription' | 'polishing';
+  kind: GeminiErrorKind;
+  message: string;
+  timestamp: number;
+}
+
+export interface PendingProcessing {
+  // The step to resume from; polishing if the transcript was already made.
+  step: NoteFailure['step'];
+  // The template chosen when the recording was made.
+  templateId: string;
+  since: number;
+}
+
+export interface Folder {
+  id: string;
+  name: string;
+  parentId: string | null;
+}
@@ -0,0 +1,234 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Background queue for uploaded audio files. Each file becomes a job that is
+// transcribed and polished into a new note, a few at a time; jobs are kept in
+// IndexedDB so the queue picks up where it left off after a reload.
+
+import {AudioProcessingStats} from './preprocess';
+import {
+  deleteUploadRecord,
+  loadUploadRecords,
+  saveUploadRecord,
+} from './storage';
+import {TranscriptResult} from './transcription';
+
+export const UPLOAD_CONCURRENCY = 2;
+
+const AUDIO_EXTENSIONS = /\.(aac|aiff|flac|m4a|mp3|oga|ogg|opus|wav|webm)$/i;
+
+export type UploadStatus =
+  'queued' | 'transcribing' | 'polishing' | 'done' | 'failed';
+
+export const UPLOAD_STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: 'Queued',
+  transcribing: 'Transcribing',
+  polishing: 'Polishing',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+export interface UploadJob {
+  id: string;
+  fileName: string;
+  // The uploaded file, until the finished note has taken it over.
+  audio?: Blob;
+  status: UploadStatus;
+  createdAt: number;
+  templateId: string;
+  // Kept once transcribed, so a retry only redoes the polishing.
+  transcript?: TranscriptResult;
+  audioProcessing?: AudioProcessingStats;
+  progress?: string;
+  error?: string;
+  noteId?: string;
+}
+
+export interface UploadQueueHandlers {
+  /**
+   * Turns a job into a note, reporting each step through `update`. Rejects
+   * if the job fails; the queue then marks it as failed.
+   */
+  process(
+    job: UploadJob,
+    signal: AbortSignal,
+    update: (changes: Partial<UploadJob>) => void,
+  ): Promise<void>;
+  onChange(): void;
+  onStorageError(context: string, error: unknown): void;
+}
+
+export function isAudioFile(file: File): boolean {
+  return file.type.startsWith('audio/') || AUDIO_EXTENSIONS.test(file.name);
+}
+
+function readEntries(
+  reader: FileSystemDirectoryReader,
+): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+/**
+ * The audio files in a drop, including those anywhere inside dropped
+ * folders, sorted by name.
+ */
+export async function collectDroppedAudioFiles(
+  dataTransfer: DataTransfer,
+): Promise<File[]> {
+  // Entries must be taken before the first await, while the drop is live.
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).filter(isAudioFile);
+  }
+  const files: File[] = [];
+  const visit = async (entry: FileSystemEntry): Promise<void> => {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) =>
+        (entry as FileSystemFileEntry).file(resolve, reject),
+      );
+      if (isAudioFile(file)) files.push(file);
+    } else if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // Each call returns the next batch of entries, then an empty list.
+      let batch = await readEntries(reader);
+      while (batch.length > 0) {
+        for (const child of batch) await visit(child);
+        batch = await readEntries(reader);
+      }
+    }
+  };
+  for (const entry of entries) await visit(entry);
+  return files.sort((a, b) =>
+    a.name.localeCompare(b.name, undefined, {numeric: true}),
+  );
+}
+
+export class UploadQueue {
+  private jobs: UploadJob[] = [];
+  private controllers = new Map<string, AbortController>();
+
+  constructor(
+    private handlers: UploadQueueHandlers,
+    private concurrency = UPLOAD_CONCURRENCY,
+  ) {}
+
+  getJobs(): readonly UploadJob[] {
+    return this.jobs;
+  }
+
+  /** Loads the saved queue. Jobs cut off by the reload start their step over. */
+  async restore(): Promise<void> {
+    const records = await loadUploadRecords();
+    const added = new Set(this.jobs.map((job) => job.id));
+    records.forEach((job) => {
+      if (job.status === 'transcribing' || job.status === 'polishing') {
+        job.status = 'queued';
+      }
+      delete job.progress;
+    });
+    this.jobs = [
+      ...records.filter((job) => !added.has(job.id)),
+      ...this.jobs,
+    ].sort((a, b) => a.createdAt - b.createdAt);
+    this.handlers.onChange();
+    this.pump();
+  }
+
+  add(files: File[], templateId: string): void {
+    const now = Date.now();
+    files.forEach((file, index) => {
+      const job: UploadJob = {
+        id: `upload_${now}_${index}`,
+        fileName: file.name,
+        audio: file,
+        status: 'queued',
+        createdAt: now,
+        templateId,
+      };
+      this.jobs.push(job);
+      this.save(job);
+    });
+    this.handlers.onChange();
+    this.pump();
+  }
+
+  /** Stops a job if it is running and removes it from the queue. */
+  cancel(id: string): void {
+    this.controllers.get(id)?.abort();
+    this.remove(id);
+  }
+
+  retry(id: string): void {
+    const job = this.jobs.find((j) => j.id === id);
+    if (!job || job.status !== 'failed') return;
+    this.update(job, {status: 'queued', error: undefined});
+    this.pump();
+  }
+
+  clearFinished(): void {
+    this.jobs
+      .filter((job) => job.status === 'done')
+      .forEach((job) => this.remove(job.id));
+  }
+
+  private remove(id: string): void {
+    this.jobs = this.jobs.filter((job) => job.id !== id);
+    deleteUploadRecord(id).catch((error) =>
+      this.handlers.onStorageError('Could not update the upload queue', error),
+    );
+    this.handlers.onChange();
+  }
+
+  private save(job: UploadJob): void {
+    saveUploadRecord(job).catch((error) =>
+      this.handlers.onStorageError('Could not save the upload queue', error),
+    );
+  }
+
+  private update(job: UploadJob, changes: Partial<UploadJob>): void {
+    Object.assign(job, changes);
+    // Progress text changes often and is not worth rewriting the audio for.
+    if (Object.keys(changes).some((key) => key !== 'progress')) {
+      this.save(job);
+    }
+    this.handlers.onChange();
+  }
+
+  private pump(): void {
+    while (this.controllers.size < this.concurrency) {
+      const job = this.jobs.find(
+        (j) => j.status === 'queued' && !this.controllers.has(j.id),
+      );
+      if (!job) return;
+      this.run(job).catch(console.error);
+    }
+  }
+
+  private async run(job: UploadJob): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    const update = (changes: Partial<UploadJob>) => {
+      if (!controller.signal.aborted) this.update(job, changes);
+    };
+    try {
+      await this.handlers.process(job, controller.signal, update);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error(`Error processing upload "${job.fileName}":`, error);
+        update({
+          status: 'failed',
+          progress: undefined,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    } finally {
+      this.controllers.delete(job.id);
+      this.pump();
+    }
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Views generated from a note on demand, each shown in a tab of its own next
+// to the polished note and the raw transcript: a summary, key points, action
+// items and a glossary of the terms the note uses.
+
+import {hashNoteContent} from './retrieval';
+import {Note} from './types';
+
+export type NoteViewId = 'summary' | 'keyPoints' | 'actionItems' | 'terms';
+
+export interface NoteView {
+  id: NoteViewId;
+  label: string;
+  instructions: string;
+}
+
+export interface GeneratedView {
+  markdown: string;
+  generatedAt: number;
+  // hashNoteContent of the note the view was generated from.
+  contentHash: string;
+}
+
+export const NOTE_VIEWS: NoteView[] = [
+  {
+    id: 'summary',
+    label: 'Summary',
+    instructions:
+      'Summarize this note in a single paragraph of three to five sentences. Write plain prose without headings or lists, and keep the most important facts and conclusions.',
+  },
+  {
+    id: 'keyPoints',
+    label: 'Key points',
+    instructions:
+      'List the key points of this note as five to ten concise markdown bullet points, most important first. Do not add a heading or anything that is not in the note.',
+  },
+  {
+    id: 'actionItems',
+    label: 'Actions',
+    instructions:
+      'List the action items in this note as a markdown checklist ("- [ ]"), with the owner and due date where they are mentioned. Then, under a level-2 heading "Follow-up questions", list open questions worth following up or studying, as bullet points. Write "None" under a part that has nothing.',
+  },
+  {
+    id: 'terms',
+    label: 'Terms',
+    instructions:
+      'Make a glossary of the technical terms, abbreviations, drug names and eponyms used in this note, in alphabetical order, as a markdown list of "**Term**: one-sentence definition". Only include terms that appear in the note.',
+  },
+];
+
+export function isNoteViewId(value: unknown): value is NoteViewId {
+  return NOTE_VIEWS.some((view) => view.id === value);
+}
+
+/** The polished note, or the raw transcript if it has not been polished. */
+export function getViewSource(note: Note): string {
+  return note.polishedNote.trim() || note.rawTranscription.trim();
+}
+
+export function buildViewPrompt(view: NoteView, note: Note): string {
+  return `${view.instructions} Write in the language of the note. Note: ${getViewSource(note)}`;
+}
+
+/** True if the note has changed since the view was generated. */
+export function isViewStale(view: GeneratedView, note: Note): boolean {
+  return view.contentHash !== hashNoteContent(note);
+}
+
+export function validateGeneratedViews(
+  value: unknown,
+): Partial<Record<NoteViewId, GeneratedView>> | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const record = value as Record<string, unknown>;
+  const views: Partial<Record<NoteViewId, GeneratedView>> = {};
+  NOTE_VIEWS.forEach(({id}) => {
+    const view = record[id];
+    if (!view || typeof view !== 'object') return;
+    const fields = view as Record<string, unknown>;
+    const {markdown, generatedAt, contentHash} = fields;
+    if (typeof markdown === 'string' && typeof generatedAt === 'number') {
+      views[id] = {
+        markdown,
+        generatedAt,
+        contentHash: typeof contentHash === 'string' ? contentHash : '',
+      };
+    }
+  });
+  return views;
+}